@@ -1,65 +1,389 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
 import { AIProviderManager } from '@/lib/ai-provider-manager'
 import { MCPManager } from '@/lib/mcp-manager'
-import { LogParser } from '@/lib/log-parser'
+import { LogParser, ParseOptions } from '@/lib/log-parser'
 import { AnalysisEngine } from '@/lib/analysis-engine'
+import { LogFormatRegistry } from '@/lib/log-format-registry'
+import { ArchiveLimitError, LogArchiveExtractor } from '@/lib/log-archive'
+import { DEFAULT_SAMPLING_LIMITS, ParsedLogBuilder } from '@/lib/parsed-log-builder'
+import { isValidTimezone } from '@/lib/timestamps'
+import { BadRequestError, readMultipartUpload } from '@/lib/upload-reader'
+import { ParsedLogCache } from '@/lib/parsed-log-cache'
+import { DEFAULT_REDACTION_SETTINGS, REDACTION_RULES, Redactor } from '@/lib/redactor'
+import { isSourceMapFileName, SourceMapResolver } from '@/lib/source-maps'
+import { BUILT_IN_DETECTOR_RULES, FailureDetector } from '@/lib/failure-detectors'
+import { ANALYSIS_STREAM_CONTENT_TYPE, encodeAnalysisEvent } from '@/lib/analysis-stream'
+import { AIProvider, AnalysisResult, AnalysisStreamEvent, AnalyzeResponse, ConversationTurn, DetectorFinding, DetectorRule, LogFormatDefinition, ParsedLog, RedactionSettings } from '@/types'
 
-export async function POST(request: NextRequest) {
+// The client sends the files again when the logs it refers to are no longer cached
+class LogsExpiredError extends Error {
+  constructor() {
+    super('The parsed logs are no longer available')
+    this.name = 'LogsExpiredError'
+  }
+}
+
+const parsedLogCache = new ParsedLogCache()
+
+// Client fields arrive as JSON strings; one that is malformed or has the wrong shape is a bad request
+function parseJsonField<T>(value: string | undefined, name: string, fallback: T, isValid: (parsed: unknown) => boolean): T {
+  if (!value) return fallback
+
+  let parsed: unknown
   try {
-    const { message, logs, provider, apiKey } = await request.json()
+    parsed = JSON.parse(value)
+  } catch {
+    throw new BadRequestError(`Invalid ${name}: not valid JSON`)
+  }
+  if (!isValid(parsed)) throw new BadRequestError(`Invalid ${name}`)
+  return parsed as T
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isRedactionSettings(value: unknown): value is RedactionSettings {
+  if (!isPlainObject(value)) return false
+  const settings = value as unknown as RedactionSettings
+  return typeof settings.enabled === 'boolean' &&
+    (settings.rules === undefined || (Array.isArray(settings.rules) && settings.rules.every(rule => REDACTION_RULES.includes(rule)))) &&
+    Array.isArray(settings.customPatterns) &&
+    settings.customPatterns.every(custom => isPlainObject(custom) && typeof custom.name === 'string' && typeof custom.pattern === 'string')
+}
+
+function isConversationHistory(value: unknown): value is ConversationTurn[] {
+  return Array.isArray(value) && value.every(turn =>
+    isPlainObject(turn) && (turn.role === 'user' || turn.role === 'assistant') && typeof turn.content === 'string'
+  )
+}
+
+// The engine reads the result's text and lists, and the redaction mapping seeds this request's pseudonyms
+function isPreviousResult(value: unknown): value is AnalysisResult {
+  if (!isPlainObject(value)) return false
+  const result = value as unknown as AnalysisResult
+  const mapping: unknown = result.redaction?.mapping
+  return typeof result.rootCause === 'string' &&
+    typeof result.reasoning === 'string' &&
+    typeof result.confidence === 'number' &&
+    Array.isArray(result.affectedComponents) &&
+    Array.isArray(result.suggestedFixes) &&
+    Array.isArray(result.unitTests) &&
+    (result.redaction === undefined || (isPlainObject(result.redaction) && isPlainObject(mapping) &&
+      Object.values(mapping).every(original => typeof original === 'string')))
+}
+
+function isLogFormatDefinition(value: unknown): value is LogFormatDefinition {
+  const definition = value as LogFormatDefinition
+  return typeof value === 'object' && value !== null && typeof definition.name === 'string' && typeof definition.pattern === 'string'
+}
+
+// Options for each uploaded file, in upload order: an optional format name and timezone
+function isLogFileOptions(value: unknown): value is ParseOptions[] {
+  return Array.isArray(value) && value.every(options =>
+    isPlainObject(options) &&
+    (options.format === undefined || typeof options.format === 'string') &&
+    (options.timezone === undefined || typeof options.timezone === 'string')
+  )
+}
+
+function isLogFormatDefinitions(value: unknown): value is LogFormatDefinition[] {
+  return Array.isArray(value) && value.every(isLogFormatDefinition)
+}
 
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key is required' },
-        { status: 400 }
-      )
+async function loadConfiguredLogFormats(): Promise<LogFormatDefinition[]> {
+  const filePath = process.env.LOG_FORMATS_FILE
+  if (!filePath) return []
+
+  try {
+    const formats: unknown = JSON.parse(await readFile(filePath, 'utf-8'))
+    if (!isLogFormatDefinitions(formats)) {
+      console.error(`Ignoring log formats in ${filePath}: expected an array of formats with a name and a pattern`)
+      return []
     }
+    return formats
+  } catch (error) {
+    console.error(`Failed to load log formats from ${filePath}:`, error)
+    return []
+  }
+}
 
-    // Initialize AI provider
-    const aiProvider = new AIProviderManager(provider, apiKey)
-    
-    // Initialize MCP manager
-    const mcpManager = new MCPManager()
-    
-    // Initialize log parser
-    const logParser = new LogParser()
-    
-    // Initialize analysis engine
-    const analysisEngine = new AnalysisEngine(aiProvider, mcpManager, logParser)
-
-    // Parse logs if provided
-    let parsedLogs = null
-    if (logs && logs.length > 0) {
-      // In a real implementation, you'd read the actual log files
-      // For now, we'll simulate this
-      parsedLogs = await logParser.parseLogFiles()
+// Patterns are compiled later, and a rule whose patterns don't compile is skipped on its own
+function isDetectorRule(value: unknown): value is DetectorRule {
+  if (!isPlainObject(value)) return false
+  const rule = value as unknown as DetectorRule
+  return typeof rule.id === 'string' &&
+    typeof rule.category === 'string' &&
+    typeof rule.title === 'string' &&
+    ['critical', 'high', 'medium', 'low'].includes(rule.severity) &&
+    Array.isArray(rule.patterns) && rule.patterns.every(pattern => typeof pattern === 'string') &&
+    typeof rule.remediation === 'string'
+}
+
+async function loadConfiguredDetectorRules(): Promise<DetectorRule[]> {
+  const filePath = process.env.DETECTOR_RULES_FILE
+  if (!filePath) return []
+
+  try {
+    const rules: unknown = JSON.parse(await readFile(filePath, 'utf-8'))
+    if (!Array.isArray(rules) || !rules.every(isDetectorRule)) {
+      console.error(`Ignoring detector rules in ${filePath}: expected an array of rules with an id, a title, a category, a severity, patterns and a remediation`)
+      return []
     }
+    return rules
+  } catch (error) {
+    console.error(`Failed to load detector rules from ${filePath}:`, error)
+    return []
+  }
+}
+
+function describeFindings(findings: DetectorFinding[]): string {
+  if (findings.length === 0) {
+    return 'No known failure patterns were found in the logs. Add an API key in the settings for a full root cause analysis.'
+  }
+  return `The rule-based detectors found ${findings.length} known failure pattern(s): ${findings.map(finding => `${finding.title} (x${finding.matchCount})`).join(', ')}. Add an API key in the settings for a full root cause analysis.`
+}
+
+// Source maps of large bundles run to tens of megabytes, but they are held in memory whole
+const MAX_SOURCE_MAP_BYTES = 50 * 1024 * 1024
 
-    // Perform analysis
-    const analysis = await analysisEngine.analyze({
-      userMessage: message,
-      logs: parsedLogs,
-      includeFixes: true,
-      includeTests: true,
-      includeCodeAnalysis: true
+// Loads the .map files in SOURCE_MAPS_DIR, for deployments that keep the maps of each release on disk
+async function loadConfiguredSourceMaps(sourceMaps: SourceMapResolver) {
+  const directory = process.env.SOURCE_MAPS_DIR
+  if (!directory) return
+
+  try {
+    const fileNames = (await readdir(directory)).filter(isSourceMapFileName)
+    for (const fileName of fileNames) {
+      try {
+        sourceMaps.add(fileName, await readFile(path.join(directory, fileName), 'utf-8'))
+      } catch (error) {
+        console.error(`Failed to load source map ${fileName}:`, error)
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to load source maps from ${directory}:`, error)
+  }
+}
+
+async function readSourceMapUpload(fileName: string, stream: Readable, sourceMaps: SourceMapResolver) {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of stream) {
+    size += chunk.length
+    if (size <= MAX_SOURCE_MAP_BYTES) chunks.push(chunk)
+  }
+
+  if (size > MAX_SOURCE_MAP_BYTES) {
+    console.error(`Ignoring source map ${fileName}: larger than ${MAX_SOURCE_MAP_BYTES} bytes`)
+    return
+  }
+  try {
+    sourceMaps.add(fileName, Buffer.concat(chunks).toString('utf-8'))
+  } catch (error) {
+    console.error(`Failed to load source map ${fileName}:`, error)
+  }
+}
+
+// Reads the upload, parses the logs and runs the analysis. Problems with the request itself are
+// thrown as BadRequestError; progress goes to onEvent as it happens.
+async function runAnalysis(request: NextRequest, onEvent?: (event: AnalysisStreamEvent) => void): Promise<AnalyzeResponse> {
+  onEvent?.({ type: 'phase', phase: 'parsing', status: 'started' })
+
+  // Log files are parsed as they stream in; the client sends every other field before them
+  const logBuilder = new ParsedLogBuilder(DEFAULT_SAMPLING_LIMITS, new FailureDetector([
+    ...BUILT_IN_DETECTOR_RULES,
+    ...await loadConfiguredDetectorRules()
+  ]))
+  const archiveExtractor = new LogArchiveExtractor()
+  const sourceMaps = new SourceMapResolver()
+  let logParser: LogParser | null = null
+  let logFileOptions: ParseOptions[] = []
+  let fileCount = 0
+
+  const fields = await readMultipartUpload(request, async (file, fields) => {
+    // Source maps come before the log files, so minified frames can be rewritten as the logs are parsed
+    if (file.fieldName === 'sourceMaps') {
+      await readSourceMapUpload(file.fileName, file.stream, sourceMaps)
+      return
+    }
+
+    if (!logParser) {
+      // Initialize log parser with formats from the config file and the settings panel
+      const logFormats = parseJsonField<LogFormatDefinition[]>(fields.logFormats, 'log formats', [], isLogFormatDefinitions)
+      logFileOptions = parseJsonField<ParseOptions[]>(fields.logFileOptions, 'log file options', [], isLogFileOptions)
+      await loadConfiguredSourceMaps(sourceMaps)
+      logParser = new LogParser(new LogFormatRegistry([
+        ...await loadConfiguredLogFormats(),
+        ...logFormats
+      ]), sourceMaps)
+    }
+
+    const { format, timezone } = logFileOptions[fileCount++] || {}
+    if (timezone && !isValidTimezone(timezone)) {
+      console.error(`Ignoring invalid timezone ${timezone} for ${file.fileName}`)
+    }
+
+    // Archives and compressed files are unpacked and each member is parsed on its own
+    const parser = logParser
+    await archiveExtractor.extract(file.fileName, file.stream, log => parser.parseLogStream({
+      name: log.path,
+      stream: log.stream,
+      format,
+      timezone: timezone && isValidTimezone(timezone) ? timezone : undefined
+    }, logBuilder))
+  })
+
+  const message = fields.message || ''
+  const provider = fields.provider as AIProvider
+  const apiKey = fields.apiKey
+
+  // Parse logs if provided, or reuse the ones parsed for an earlier message
+  let parsedLogs: ParsedLog | null = null
+  let logsId: string | undefined
+  if (fileCount > 0) {
+    parsedLogs = logBuilder.build()
+    logsId = parsedLogCache.add(parsedLogs)
+  } else if (fields.logsId) {
+    parsedLogs = parsedLogCache.get(fields.logsId)
+    if (!parsedLogs) throw new LogsExpiredError()
+    logsId = fields.logsId
+  }
+  onEvent?.({ type: 'phase', phase: 'parsing', status: 'completed' })
+
+  if (!apiKey) {
+    if (!parsedLogs) throw new BadRequestError('API key is required')
+
+    // The detectors need no AI provider, so uploaded logs are still checked for known failures
+    return {
+      analysis: describeFindings(parsedLogs.findings),
+      rootCause: parsedLogs.findings[0]?.title || '',
+      affectedComponents: [],
+      suggestedFixes: [],
+      unitTests: [],
+      confidence: 0,
+      reasoning: '',
+      anomalies: parsedLogs.anomalies,
+      findings: parsedLogs.findings,
+      rulesOnly: true,
+      logsId
+    }
+  }
+
+  // Personal data and secrets are replaced before anything is sent to the provider
+  const redactionSettings = parseJsonField<RedactionSettings>(fields.redaction, 'redaction settings', DEFAULT_REDACTION_SETTINGS, isRedactionSettings)
+  let redactor: Redactor
+  try {
+    redactor = new Redactor(redactionSettings)
+  } catch (error) {
+    throw new BadRequestError(error instanceof Error ? error.message : 'Invalid redaction settings')
+  }
+
+  // Earlier messages and the analysis they produced let the engine refine it for a follow-up question
+  const history = parseJsonField<ConversationTurn[]>(fields.history, 'conversation history', [], isConversationHistory)
+  const previousResult = parseJsonField<AnalysisResult | null>(fields.previousResult, 'previous result', null, isPreviousResult)
+  if (previousResult?.redaction) redactor.addPseudonyms(previousResult.redaction.mapping)
+
+  // Initialize AI provider
+  const aiProvider = new AIProviderManager(provider, apiKey)
+  
+  // Initialize MCP manager
+  const mcpManager = new MCPManager()
+  
+  // Initialize analysis engine
+  const analysisEngine = new AnalysisEngine(aiProvider, mcpManager, redactor)
+
+  // Perform analysis
+  const analysis = await analysisEngine.analyze({
+    userMessage: message,
+    logs: parsedLogs,
+    history,
+    previousResult,
+    includeFixes: true,
+    includeTests: true,
+    includeCodeAnalysis: true,
+    investigate: fields.investigate === 'true',
+    onEvent
+  })
+
+  return {
+    analysis: analysis.summary || analysis.reasoning,
+    summary: analysis.summary,
+    rootCause: analysis.rootCause,
+    affectedComponents: analysis.affectedComponents,
+    suggestedFixes: analysis.suggestedFixes,
+    unitTests: analysis.unitTests,
+    confidence: analysis.confidence,
+    reasoning: analysis.reasoning,
+    immediateActions: analysis.immediateActions,
+    preventionMeasures: analysis.preventionMeasures,
+    codeAnalysis: analysis.codeAnalysis,
+    anomalies: analysis.anomalies,
+    timeline: analysis.timeline,
+    redaction: analysis.redaction,
+    context: analysis.context,
+    findings: analysis.findings,
+    parseErrors: analysis.parseErrors,
+    investigation: analysis.investigation,
+    logsId
+  }
+}
+
+function getErrorResponse(error: unknown): { error: string, status: number } {
+  if (error instanceof BadRequestError) return { error: error.message, status: 400 }
+  if (error instanceof ArchiveLimitError) return { error: error.message, status: 413 }
+  if (error instanceof LogsExpiredError) return { error: error.message, status: 410 }
+
+  console.error('Analysis error:', error)
+  return { error: 'Failed to perform analysis', status: 500 }
+}
+
+export async function POST(request: NextRequest) {
+  // Clients that accept NDJSON get phase events and the assistant text while the analysis runs
+  if (request.headers.get('accept')?.includes(ANALYSIS_STREAM_CONTENT_TYPE)) {
+    const encoder = new TextEncoder()
+    // Set once the client disconnects; the analysis still finishes, its events just go nowhere
+    let closed = false
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AnalysisStreamEvent) => {
+          if (closed) return
+          try {
+            controller.enqueue(encoder.encode(encodeAnalysisEvent(event)))
+          } catch {
+            closed = true
+          }
+        }
+        try {
+          send({ type: 'result', result: await runAnalysis(request, send) })
+        } catch (error) {
+          send({ type: 'error', ...getErrorResponse(error) })
+        }
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      },
+      cancel() {
+        closed = true
+      }
     })
 
-    return NextResponse.json({
-      analysis: analysis.summary || analysis.reasoning,
-      rootCause: analysis.rootCause,
-      affectedComponents: analysis.affectedComponents,
-      suggestedFixes: analysis.suggestedFixes,
-      unitTests: analysis.unitTests,
-      confidence: analysis.confidence,
-      reasoning: analysis.reasoning,
-      codeAnalysis: analysis.codeAnalysis
+    return new Response(stream, {
+      headers: {
+        'Content-Type': `${ANALYSIS_STREAM_CONTENT_TYPE}; charset=utf-8`,
+        'Cache-Control': 'no-cache'
+      }
     })
+  }
 
+  try {
+    return NextResponse.json(await runAnalysis(request))
   } catch (error) {
-    console.error('Analysis error:', error)
-    return NextResponse.json(
-      { error: 'Failed to perform analysis' },
-      { status: 500 }
-    )
+    const { error: message, status } = getErrorResponse(error)
+    return NextResponse.json({ error: message }, { status })
   }
 }
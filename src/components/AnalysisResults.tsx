@@ -1,18 +1,63 @@
 'use client'
 
 import { useState } from 'react'
-import { AnalysisResult } from '@/types'
-import { AlertTriangle, Code, TestTube, ChevronDown, ChevronRight, Copy, Check } from 'lucide-react'
+import { AnalysisPhase, AnalysisResult } from '@/types'
+import { restoreRedactedText } from '@/lib/redactor'
+import { AlertTriangle, Activity, Clock, Code, FileCode, ScanSearch, TestTube, ChevronDown, ChevronRight, Copy, Check, Eye, EyeOff, Shield, Loader2, Wrench, ListChecks } from 'lucide-react'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { tomorrow } from 'react-syntax-highlighter/dist/esm/styles/prism'
 
 interface AnalysisResultsProps {
   results: AnalysisResult
+  // Phase of an analysis still in progress; sections it will fill show a spinner
+  phase?: AnalysisPhase | null
+  // Shared with the chat, which shows the assistant's messages the same way
+  showRealValues: boolean
+  onShowRealValuesChange: (showRealValues: boolean) => void
 }
 
-export function AnalysisResults({ results }: AnalysisResultsProps) {
-  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['rootCause']))
+const SNIPPET_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  java: 'java',
+  kt: 'kotlin',
+  scala: 'scala',
+  py: 'python',
+  go: 'go',
+  rb: 'ruby',
+  cs: 'csharp'
+}
+
+export function AnalysisResults({ results, phase, showRealValues, onShowRealValuesChange }: AnalysisResultsProps) {
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['findings', 'rootCause', 'actions', 'timeline']))
   const [copiedItems, setCopiedItems] = useState<Set<string>>(new Set())
+  // Actions ticked off during the incident, keyed by list and text so they survive follow-up revisions
+  const [completedActions, setCompletedActions] = useState<Set<string>>(new Set())
+
+  const redactionMapping = results.redaction?.mapping || {}
+  const hasRedactions = Object.keys(redactionMapping).length > 0
+
+  // The model only saw pseudonyms, so its text is shown with them unless real values are requested
+  const reveal = (text: string) => showRealValues ? restoreRedactedText(text, redactionMapping) : text
+
+  const actionLists = [
+    { id: 'mitigate', title: 'Mitigate now', items: results.immediateActions || [] },
+    { id: 'prevent', title: 'Prevent recurrence', items: results.preventionMeasures || [] }
+  ].filter(list => list.items.length > 0)
+  const actionCount = actionLists.reduce((count, list) => count + list.items.length, 0)
+  const completedActionCount = actionLists.reduce((count, list) => count + list.items.filter(item => completedActions.has(`${list.id}:${item}`)).length, 0)
+
+  const toggleAction = (key: string) => {
+    const newCompleted = new Set(completedActions)
+    if (newCompleted.has(key)) {
+      newCompleted.delete(key)
+    } else {
+      newCompleted.add(key)
+    }
+    setCompletedActions(newCompleted)
+  }
 
   const toggleSection = (section: string) => {
     const newExpanded = new Set(expandedSections)
@@ -55,127 +100,439 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
     }
   }
 
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'critical': return 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20'
+      case 'high': return 'text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20'
+      case 'medium': return 'text-yellow-600 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-900/20'
+      case 'low': return 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20'
+      default: return 'text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/20'
+    }
+  }
+
+  const getAnomalyColor = (kind: string) => {
+    switch (kind) {
+      case 'onset': return 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20'
+      case 'spike': return 'text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20'
+      case 'recovery': return 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20'
+      default: return 'text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/20'
+    }
+  }
+
+  const getTimelineColor = (kind: string) => {
+    switch (kind) {
+      case 'anomaly':
+      case 'error': return 'border-red-500'
+      case 'cascade': return 'border-orange-500'
+      case 'mitigation': return 'border-blue-500'
+      case 'recovery': return 'border-green-500'
+      default: return 'border-gray-400'
+    }
+  }
+
   return (
     <div className="bg-white dark:bg-gray-900 rounded-lg shadow-lg p-4 space-y-4">
       <div className="flex items-center justify-between border-b dark:border-gray-700 pb-2">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
           Analysis Results
         </h2>
-        <div className={`text-sm font-medium ${getConfidenceColor(results.confidence)}`}>
-          {Math.round(results.confidence * 100)}% confidence
+        <div className="flex items-center gap-2">
+          {hasRedactions && (
+            <button
+              onClick={() => onShowRealValuesChange(!showRealValues)}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+              title={showRealValues ? 'Show pseudonyms' : 'Show real values'}
+            >
+              {showRealValues ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              {showRealValues ? 'Hide real values' : 'Show real values'}
+            </button>
+          )}
+          {!results.rulesOnly && (
+            <div className={`text-sm font-medium ${getConfidenceColor(results.confidence)}`}>
+              {Math.round(results.confidence * 100)}% confidence
+            </div>
+          )}
         </div>
       </div>
 
-      {/* Root Cause */}
-      <div className="space-y-2">
-        <button
-          onClick={() => toggleSection('rootCause')}
-          className="flex items-center gap-2 w-full text-left"
-        >
-          {expandedSections.has('rootCause') ? (
-            <ChevronDown className="w-4 h-4" />
-          ) : (
-            <ChevronRight className="w-4 h-4" />
-          )}
-          <AlertTriangle className="w-4 h-4 text-red-500" />
-          <span className="font-medium">Root Cause</span>
-        </button>
-        
-        {expandedSections.has('rootCause') && (
-          <div className="ml-6 p-3 bg-red-50 dark:bg-red-900/20 rounded border-l-4 border-red-500">
-            <p className="text-gray-700 dark:text-gray-300">{results.rootCause}</p>
-            {results.affectedComponents.length > 0 && (
-              <div className="mt-2">
-                <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Affected Components:
-                </span>
-                <div className="flex flex-wrap gap-1 mt-1">
-                  {results.affectedComponents.map((component, index) => (
-                    <span
-                      key={index}
-                      className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded"
-                    >
-                      {component}
+      {results.context && (results.context.omittedEntries > 0 || results.context.omittedItems.length > 0) && (
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          To fit the model&apos;s context window the prompt included {results.context.includedEntries} log entries and left out {results.context.omittedEntries} ({results.context.omittedErrors} errors)
+          {results.context.omittedFingerprints.length > 0 && `, including every example of ${results.context.omittedFingerprints.length} error clusters`}
+          {results.context.omittedItems.length > 0 && `, plus ${results.context.omittedItems.map(item => `${item.count} ${item.section}`).join(', ')}`}.
+        </p>
+      )}
+
+      {results.parseErrors && results.parseErrors.length > 0 && (
+        <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded border-l-4 border-yellow-500 space-y-1">
+          {results.parseErrors.map((error, index) => (
+            <p key={index} className="text-xs text-gray-700 dark:text-gray-300 break-words">
+              The model&apos;s {error.step} response did not match the expected format after {error.attempts} attempts: {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {results.rulesOnly && (
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          No AI provider is configured, so only the rule-based detectors ran. Add an API key in the settings for a full root cause analysis.
+        </p>
+      )}
+
+      {/* Known Failure Patterns */}
+      {results.findings && results.findings.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('findings')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('findings') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <ScanSearch className="w-4 h-4 text-red-500" />
+            <span className="font-medium">Known Failure Patterns ({results.findings.length})</span>
+          </button>
+
+          {expandedSections.has('findings') && (
+            <div className="ml-6 space-y-3">
+              {results.findings.map((finding) => (
+                <div key={finding.ruleId} className="border dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {finding.title}
                     </span>
-                  ))}
+                    <span className={`px-2 py-1 text-xs rounded ${getSeverityColor(finding.severity)}`}>
+                      {finding.severity}
+                    </span>
+                    <span className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded">
+                      {finding.category}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-500">
+                    {finding.matchCount} matching lines
+                    {finding.firstSeen && `, ${new Date(finding.firstSeen).toLocaleString()} – ${new Date(finding.lastSeen || finding.firstSeen).toLocaleString()}`}
+                    {finding.sources.length > 0 && ` in ${finding.sources.join(', ')}`}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                    {finding.remediation}
+                  </p>
+                  <div className="mt-2 p-2 bg-gray-50 dark:bg-gray-800 rounded font-mono text-xs text-gray-700 dark:text-gray-300 space-y-1 overflow-x-auto">
+                    {finding.evidence.map((entry, index) => (
+                      <div key={index} className="whitespace-pre">
+                        [{entry.timestamp || 'no timestamp'}] {entry.level.toUpperCase()} {entry.message}
+                        {entry.context?.file && <span className="text-gray-400"> ({entry.context.file})</span>}
+                      </div>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Root Cause */}
+      {!results.rulesOnly && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('rootCause')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('rootCause') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
             )}
-          </div>
-        )}
-      </div>
+            <AlertTriangle className="w-4 h-4 text-red-500" />
+            <span className="font-medium">Root Cause</span>
+          </button>
+          
+          {expandedSections.has('rootCause') && (
+            <div className="ml-6 p-3 bg-red-50 dark:bg-red-900/20 rounded border-l-4 border-red-500">
+              <p className="text-gray-700 dark:text-gray-300">{reveal(results.rootCause)}</p>
+              {results.affectedComponents.length > 0 && (
+                <div className="mt-2">
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Affected Components:
+                  </span>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {results.affectedComponents.map((component, index) => (
+                      <span
+                        key={index}
+                        className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded"
+                      >
+                        {reveal(component)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
 
-      {/* Suggested Fixes */}
-      <div className="space-y-2">
-        <button
-          onClick={() => toggleSection('fixes')}
-          className="flex items-center gap-2 w-full text-left"
-        >
-          {expandedSections.has('fixes') ? (
-            <ChevronDown className="w-4 h-4" />
-          ) : (
-            <ChevronRight className="w-4 h-4" />
+      {/* Mitigate now / Prevent recurrence */}
+      {actionCount > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('actions')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('actions') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <ListChecks className="w-4 h-4 text-emerald-500" />
+            <span className="font-medium">Mitigate now / Prevent recurrence ({completedActionCount}/{actionCount})</span>
+          </button>
+
+          {expandedSections.has('actions') && (
+            <div className="ml-6 space-y-3">
+              {actionLists.map((list) => (
+                <div key={list.id}>
+                  <h4 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-1">{list.title}</h4>
+                  <div className="space-y-1">
+                    {list.items.map((item, index) => {
+                      const key = `${list.id}:${item}`
+                      return (
+                        <label key={index} className="flex items-start gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={completedActions.has(key)}
+                            onChange={() => toggleAction(key)}
+                            className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className={completedActions.has(key) ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}>
+                            {reveal(item)}
+                          </span>
+                        </label>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
           )}
-          <Code className="w-4 h-4 text-blue-500" />
-          <span className="font-medium">Suggested Fixes ({results.suggestedFixes.length})</span>
-        </button>
-        
-        {expandedSections.has('fixes') && (
-          <div className="ml-6 space-y-3">
-            {results.suggestedFixes.map((fix) => (
-              <div key={fix.id} className="border dark:border-gray-700 rounded-lg p-3">
-                <div className="flex items-start justify-between mb-2">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="font-medium text-gray-900 dark:text-white">
-                        {fix.description}
-                      </span>
-                      <span className={`px-2 py-1 text-xs rounded ${getPriorityColor(fix.priority)}`}>
-                        {fix.priority}
-                      </span>
-                    </div>
+        </div>
+      )}
+
+      {/* Incident Timeline */}
+      {results.timeline && results.timeline.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('timeline')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('timeline') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <Clock className="w-4 h-4 text-purple-500" />
+            <span className="font-medium">Incident Timeline ({results.timeline.length})</span>
+          </button>
+
+          {expandedSections.has('timeline') && (
+            <ol className="ml-6 space-y-3">
+              {results.timeline.map((event) => (
+                <li key={event.id} className={`pl-3 border-l-4 ${getTimelineColor(event.kind)}`}>
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-500">
+                    <span>{new Date(event.time).toLocaleString()}</span>
+                    <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded">{event.kind}</span>
+                    {event.component && <span>{event.component}</span>}
+                    {event.occurrences > 1 && <span>×{event.occurrences}</span>}
+                  </div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white break-words">
+                    {reveal(event.title)}
+                  </p>
+                  {event.description && (
                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                      {fix.explanation}
+                      {reveal(event.description)}
                     </p>
-                    {fix.filePath && (
-                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
-                        File: {fix.filePath}
+                  )}
+                  {event.entries.length > 0 && (
+                    <div className="mt-1 p-2 bg-gray-50 dark:bg-gray-800 rounded font-mono text-xs text-gray-700 dark:text-gray-300 space-y-1 overflow-x-auto">
+                      {event.entries.map((entry, index) => (
+                        <div key={index} className="whitespace-pre">
+                          [{entry.timestamp}] {entry.level.toUpperCase()} {entry.message}
+                          {entry.context?.file && <span className="text-gray-400"> ({entry.context.file})</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* Error Rate Anomalies */}
+      {results.anomalies && results.anomalies.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('anomalies')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('anomalies') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <Activity className="w-4 h-4 text-orange-500" />
+            <span className="font-medium">Error Rate Anomalies ({results.anomalies.length})</span>
+          </button>
+
+          {expandedSections.has('anomalies') && (
+            <div className="ml-6 space-y-2">
+              {results.anomalies.map((anomaly, index) => (
+                <div key={index} className="border dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-2 py-1 text-xs rounded ${getAnomalyColor(anomaly.kind)}`}>
+                      {anomaly.kind}
+                    </span>
+                    <span className="text-sm text-gray-900 dark:text-white">
+                      {new Date(anomaly.start).toLocaleString()} – {new Date(anomaly.end).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                    {anomaly.scope === 'all' ? 'All errors' : `${anomaly.scope === 'source' ? 'Source' : 'Fingerprint'}: ${anomaly.label}`}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                    {anomaly.errorCount} errors, {anomaly.expectedCount} expected
+                    {anomaly.pValue !== undefined && ` (p = ${anomaly.pValue.toPrecision(2)})`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Code at Failing Frames */}
+      {results.codeAnalysis?.codeSnippets && results.codeAnalysis.codeSnippets.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('codeSnippets')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('codeSnippets') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <FileCode className="w-4 h-4 text-purple-500" />
+            <span className="font-medium">Failing Code ({results.codeAnalysis.codeSnippets.length})</span>
+          </button>
+
+          {expandedSections.has('codeSnippets') && (
+            <div className="ml-6 space-y-3">
+              {results.codeAnalysis.codeSnippets.map((snippet) => (
+                <div key={`${snippet.serverId}:${snippet.path}:${snippet.frame.line}`} className="border dark:border-gray-700 rounded-lg p-3">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white break-all">
+                    {snippet.frame.function || 'anonymous'}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500 mb-2 break-all">
+                    {snippet.path}:{snippet.frame.line} ({snippet.serverId})
+                  </p>
+                  <SyntaxHighlighter
+                    language={SNIPPET_LANGUAGES[snippet.path.split('.').pop() || ''] || 'text'}
+                    style={tomorrow}
+                    className="text-xs rounded"
+                    showLineNumbers
+                    startingLineNumber={snippet.startLine}
+                    wrapLines
+                    lineProps={(lineNumber: number) => ({
+                      style: lineNumber === snippet.frame.line ? { display: 'block', backgroundColor: 'rgba(239, 68, 68, 0.25)' } : { display: 'block' }
+                    })}
+                  >
+                    {snippet.code}
+                  </SyntaxHighlighter>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Suggested Fixes */}
+      {!results.rulesOnly && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('fixes')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('fixes') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <Code className="w-4 h-4 text-blue-500" />
+            <span className="font-medium">Suggested Fixes ({results.suggestedFixes.length})</span>
+            {phase === 'fixes' && <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
+          </button>
+          
+          {expandedSections.has('fixes') && (
+            <div className="ml-6 space-y-3">
+              {results.suggestedFixes.map((fix) => (
+                <div key={fix.id} className="border dark:border-gray-700 rounded-lg p-3">
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {reveal(fix.description)}
+                        </span>
+                        <span className={`px-2 py-1 text-xs rounded ${getPriorityColor(fix.priority)}`}>
+                          {fix.priority}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {reveal(fix.explanation)}
                       </p>
+                      {fix.filePath && (
+                        <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                          File: {reveal(fix.filePath)}
+                        </p>
+                      )}
+                    </div>
+                    {fix.code && (
+                      <button
+                        onClick={() => copyToClipboard(reveal(fix.code!), `fix-${fix.id}`)}
+                        className="ml-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      >
+                        {copiedItems.has(`fix-${fix.id}`) ? (
+                          <Check className="w-4 h-4 text-green-500" />
+                        ) : (
+                          <Copy className="w-4 h-4" />
+                        )}
+                      </button>
                     )}
                   </div>
+                  
                   {fix.code && (
-                    <button
-                      onClick={() => copyToClipboard(fix.code!, `fix-${fix.id}`)}
-                      className="ml-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                    >
-                      {copiedItems.has(`fix-${fix.id}`) ? (
-                        <Check className="w-4 h-4 text-green-500" />
-                      ) : (
-                        <Copy className="w-4 h-4" />
-                      )}
-                    </button>
+                    <div className="mt-2">
+                      <SyntaxHighlighter
+                        language="typescript"
+                        style={tomorrow}
+                        className="text-xs rounded"
+                      >
+                        {reveal(fix.code)}
+                      </SyntaxHighlighter>
+                    </div>
                   )}
                 </div>
-                
-                {fix.code && (
-                  <div className="mt-2">
-                    <SyntaxHighlighter
-                      language="typescript"
-                      style={tomorrow}
-                      className="text-xs rounded"
-                    >
-                      {fix.code}
-                    </SyntaxHighlighter>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Unit Tests */}
-      {results.unitTests.length > 0 && (
+      {(results.unitTests.length > 0 || phase === 'tests') && (
         <div className="space-y-2">
           <button
             onClick={() => toggleSection('tests')}
@@ -188,6 +545,7 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
             )}
             <TestTube className="w-4 h-4 text-green-500" />
             <span className="font-medium">Unit Tests ({results.unitTests.length})</span>
+            {phase === 'tests' && <Loader2 className="w-4 h-4 animate-spin text-blue-500" />}
           </button>
           
           {expandedSections.has('tests') && (
@@ -198,18 +556,18 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <span className="font-medium text-gray-900 dark:text-white">
-                          {test.description}
+                          {reveal(test.description)}
                         </span>
                         <span className="px-2 py-1 text-xs bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400 rounded">
                           {test.framework}
                         </span>
                       </div>
                       <p className="text-xs text-gray-500 dark:text-gray-500">
-                        File: {test.filePath}
+                        File: {reveal(test.filePath)}
                       </p>
                     </div>
                     <button
-                      onClick={() => copyToClipboard(test.code, `test-${test.id}`)}
+                      onClick={() => copyToClipboard(reveal(test.code), `test-${test.id}`)}
                       className="ml-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
                     >
                       {copiedItems.has(`test-${test.id}`) ? (
@@ -226,7 +584,7 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
                       style={tomorrow}
                       className="text-xs rounded"
                     >
-                      {test.code}
+                      {reveal(test.code)}
                     </SyntaxHighlighter>
                   </div>
                 </div>
@@ -237,27 +595,134 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
       )}
 
       {/* Reasoning */}
-      <div className="space-y-2">
-        <button
-          onClick={() => toggleSection('reasoning')}
-          className="flex items-center gap-2 w-full text-left"
-        >
-          {expandedSections.has('reasoning') ? (
-            <ChevronDown className="w-4 h-4" />
-          ) : (
-            <ChevronRight className="w-4 h-4" />
+      {!results.rulesOnly && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('reasoning')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('reasoning') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <span className="font-medium">Analysis Reasoning</span>
+          </button>
+          
+          {expandedSections.has('reasoning') && (
+            <div className="ml-6 p-3 bg-gray-50 dark:bg-gray-800 rounded">
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                {reveal(results.reasoning)}
+              </p>
+            </div>
           )}
-          <span className="font-medium">Analysis Reasoning</span>
-        </button>
-        
-        {expandedSections.has('reasoning') && (
-          <div className="ml-6 p-3 bg-gray-50 dark:bg-gray-800 rounded">
-            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
-              {results.reasoning}
-            </p>
-          </div>
-        )}
-      </div>
+        </div>
+      )}
+
+      {/* Investigation Trace */}
+      {results.investigation && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('investigation')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('investigation') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <Wrench className="w-4 h-4 text-indigo-500" />
+            <span className="font-medium">Investigation Trace ({results.investigation.toolCalls.length})</span>
+          </button>
+
+          {expandedSections.has('investigation') && (
+            <div className="ml-6 space-y-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {results.investigation.toolCalls.length} tool call(s) over {results.investigation.steps} of at most {results.investigation.maxSteps} steps
+              </p>
+              {results.investigation.error && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {results.investigation.error}. The analysis went ahead without an investigation.
+                </p>
+              )}
+              {results.investigation.stepLimitReached && (
+                <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                  The step limit was reached before the model finished investigating.
+                </p>
+              )}
+              {results.investigation.toolCalls.length > 0 && (
+                <div className="space-y-1">
+                  {results.investigation.toolCalls.map((call, index) => (
+                    <div key={index} className="flex items-start gap-2 text-xs">
+                      <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">Step {call.step}</span>
+                      <div className="min-w-0">
+                        <div className="font-mono break-all text-gray-700 dark:text-gray-300">
+                          {call.tool}({reveal(JSON.stringify(call.input))})
+                        </div>
+                        <div className={call.failed ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                          {reveal(call.summary)}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {results.investigation.notes && (
+                <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded">
+                  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {reveal(results.investigation.notes)}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Redaction */}
+      {results.redaction && results.redaction.counts.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => toggleSection('redaction')}
+            className="flex items-center gap-2 w-full text-left"
+          >
+            {expandedSections.has('redaction') ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            <Shield className="w-4 h-4 text-gray-500" />
+            <span className="font-medium">Redactions ({Object.keys(redactionMapping).length} values)</span>
+          </button>
+
+          {expandedSections.has('redaction') && (
+            <div className="ml-6 space-y-2">
+              <div className="flex flex-wrap gap-1">
+                {results.redaction.counts.map(({ rule, count }) => (
+                  <span
+                    key={rule}
+                    className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-700 rounded"
+                  >
+                    {rule}: {count}
+                  </span>
+                ))}
+              </div>
+              {showRealValues && (
+                <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded font-mono text-xs text-gray-700 dark:text-gray-300 space-y-1 overflow-x-auto">
+                  {Object.entries(redactionMapping).map(([pseudonym, value]) => (
+                    <div key={pseudonym} className="whitespace-pre">
+                      {pseudonym} = {value}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-500">
+                These values were replaced with pseudonyms before the logs were sent to the AI provider.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
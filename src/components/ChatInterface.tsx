@@ -1,23 +1,47 @@
 'use client'
 
 import { useState, useRef, useCallback } from 'react'
-import { FileText, Settings, Brain } from 'lucide-react'
+import { FileText, FileCode, Settings, Brain } from 'lucide-react'
 import { FileUpload } from './FileUpload'
 import { MessageList } from './MessageList'
 import { MessageInput } from './MessageInput'
 import { AnalysisResults } from './AnalysisResults'
 import { SettingsPanel } from './SettingsPanel'
-import { Message, AnalysisResult, AIProvider } from '@/types'
+import { Message, AnalysisPhase, AnalysisResult, AnalysisStreamEvent, AnalyzeResponse, AIProvider, InvestigationToolCall, LogFormatDefinition, RedactionSettings } from '@/types'
+import { BUILT_IN_LOG_FORMATS } from '@/lib/log-format-registry'
+import { isSupportedUpload } from '@/lib/log-files'
+import { DEFAULT_REDACTION_SETTINGS } from '@/lib/redactor'
+import { isSourceMapFileName } from '@/lib/source-maps'
+import { ANALYSIS_STREAM_CONTENT_TYPE, readAnalysisStream } from '@/lib/analysis-stream'
+import type { ParseOptions } from '@/lib/log-parser'
 import { toast } from 'react-hot-toast'
 
+interface ParsedUpload {
+  id: string
+  logs: File[]
+  sourceMaps: File[]
+  logFormats: LogFormatDefinition[]
+  logFileOptions: Map<File, ParseOptions>
+}
+
 export function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([])
   const [uploadedLogs, setUploadedLogs] = useState<File[]>([])
+  const [sourceMaps, setSourceMaps] = useState<File[]>([])
   const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [analysisPhase, setAnalysisPhase] = useState<AnalysisPhase | null>(null)
+  const [toolCalls, setToolCalls] = useState<InvestigationToolCall[]>([])
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [aiProvider, setAiProvider] = useState<AIProvider>('openai')
   const [apiKey, setApiKey] = useState('')
+  const [logFormats, setLogFormats] = useState<LogFormatDefinition[]>([])
+  const [logFileOptions, setLogFileOptions] = useState<Map<File, ParseOptions>>(new Map())
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS)
+  const [investigate, setInvestigate] = useState(false)
+  const [showRealValues, setShowRealValues] = useState(false)
+  // Files and parse settings of the logs the server has parsed, with the id to refer to them by
+  const parsedUpload = useRef<ParsedUpload | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   const scrollToBottom = () => {
@@ -25,13 +49,20 @@ export function ChatInterface() {
   }
 
   const handleFileUpload = useCallback((files: File[]) => {
-    const logFiles = files.filter(file => file.name.endsWith('.log'))
-    if (logFiles.length === 0) {
-      toast.error('Please upload .log files only')
+    const mapFiles = files.filter(file => isSourceMapFileName(file.name))
+    const logFiles = files.filter(file => !isSourceMapFileName(file.name) && isSupportedUpload(file.name))
+    if (logFiles.length === 0 && mapFiles.length === 0) {
+      toast.error('Please upload log files, .gz, .zip, .tar.gz archives or .map source maps only')
       return
     }
-    setUploadedLogs(prev => [...prev, ...logFiles])
-    toast.success(`Uploaded ${logFiles.length} log file(s)`)
+    if (mapFiles.length > 0) {
+      setSourceMaps(prev => [...prev, ...mapFiles])
+      toast.success(`Uploaded ${mapFiles.length} source map(s)`)
+    }
+    if (logFiles.length > 0) {
+      setUploadedLogs(prev => [...prev, ...logFiles])
+      toast.success(`Uploaded ${logFiles.length} log file(s)`)
+    }
   }, [])
 
   const handleSendMessage = useCallback(async (content: string) => {
@@ -46,60 +77,134 @@ export function ChatInterface() {
 
     setMessages(prev => [...prev, userMessage])
     setIsAnalyzing(true)
+    setToolCalls([])
+
+    // The assistant message is added with the first streamed text and updated as more arrives
+    const assistantId = (Date.now() + 1).toString()
+    const showAssistantMessage = (content: string) => setMessages(prev => prev.some(message => message.id === assistantId)
+      ? prev.map(message => message.id === assistantId ? { ...message, content } : message)
+      : [...prev, { id: assistantId, role: 'assistant', content, timestamp: new Date() }]
+    )
+
+    // Logs parsed for an earlier message are reused while the files and parse settings are unchanged
+    const upload = parsedUpload.current
+    const cachedLogsId = upload && upload.logs === uploadedLogs && upload.sourceMaps === sourceMaps &&
+      upload.logFormats === logFormats && upload.logFileOptions === logFileOptions ? upload.id : undefined
+
+    const requestAnalysis = async (logsId?: string) => {
+      const formData = new FormData()
+      formData.append('message', content)
+      formData.append('provider', aiProvider)
+      formData.append('apiKey', apiKey)
+      formData.append('logFormats', JSON.stringify(logFormats))
+      formData.append('logFileOptions', JSON.stringify(uploadedLogs.map(file => logFileOptions.get(file) || {})))
+      formData.append('redaction', JSON.stringify(redaction))
+      formData.append('investigate', String(investigate))
+      // Follow-up questions are answered from the conversation and the results so far
+      formData.append('history', JSON.stringify(messages.map(({ role, content }) => ({ role, content }))))
+      if (analysisResults) formData.append('previousResult', JSON.stringify(analysisResults))
+      if (logsId) {
+        formData.append('logsId', logsId)
+      } else {
+        // Files go last so the server can parse them as they stream in, source maps first so they apply to every log
+        sourceMaps.forEach(file => formData.append('sourceMaps', file, file.name))
+        uploadedLogs.forEach(file => formData.append('logs', file, file.name))
+      }
 
-    try {
-      // Add AI processing logic here
       const response = await fetch('/api/analyze', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: content,
-          logs: uploadedLogs.map(file => file.name),
-          provider: aiProvider,
-          apiKey
-        }),
+        headers: { Accept: ANALYSIS_STREAM_CONTENT_TYPE },
+        body: formData,
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Analysis failed')
       }
 
-      const result = await response.json()
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: result.analysis,
-        timestamp: new Date()
+      let streamedText = ''
+      let result = null as AnalyzeResponse | null
+      let failure = null as Extract<AnalysisStreamEvent, { type: 'error' }> | null
+      await readAnalysisStream(response.body, event => {
+        switch (event.type) {
+          case 'phase':
+            setAnalysisPhase(event.status === 'started' ? event.phase : null)
+            break
+          case 'text':
+            streamedText += event.delta
+            showAssistantMessage(streamedText)
+            scrollToBottom()
+            break
+          case 'tool-call':
+            setToolCalls(prev => [...prev, event.call])
+            break
+          case 'partial':
+            // The first partial is a complete analysis, new or refined; later ones add fixes and tests
+            setAnalysisResults(prev => ({ ...prev, ...event.result }) as AnalysisResult)
+            break
+          case 'result':
+            result = event.result
+            break
+          case 'error':
+            failure = event
+            break
+        }
+      })
+      return { result, failure }
+    }
+
+    // Set when the user has already been told why the analysis failed
+    let errorReported = false
+    try {
+      let { result, failure } = await requestAnalysis(cachedLogsId)
+      // The server no longer has the parsed logs, so they are uploaded again
+      if (failure?.status === 410 && cachedLogsId) {
+        ({ result, failure } = await requestAnalysis())
+      }
+
+      if (failure) {
+        if (failure.status === 400 || failure.status === 413) {
+          toast.error(failure.error)
+          errorReported = true
+        }
+        throw new Error(failure.error)
+      }
+      if (!result) {
+        throw new Error('The analysis stream ended without a result')
       }
 
-      setMessages(prev => [...prev, aiMessage])
+      parsedUpload.current = result.logsId ? { id: result.logsId, logs: uploadedLogs, sourceMaps, logFormats, logFileOptions } : null
+      showAssistantMessage(result.analysis)
       setAnalysisResults(result)
       
     } catch (error) {
       console.error('Analysis error:', error)
-      toast.error('Failed to analyze. Please check your settings.')
-      
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'I encountered an error while analyzing. Please check your API settings and try again.',
-        timestamp: new Date()
-      }
-      setMessages(prev => [...prev, errorMessage])
+      if (!errorReported) toast.error('Failed to analyze. Please check your settings.')
+      showAssistantMessage('I encountered an error while analyzing. Please check your API settings and try again.')
     } finally {
       setIsAnalyzing(false)
+      setAnalysisPhase(null)
       scrollToBottom()
     }
-  }, [uploadedLogs, aiProvider, apiKey])
+  }, [messages, analysisResults, uploadedLogs, sourceMaps, aiProvider, apiKey, logFormats, logFileOptions, redaction, investigate])
 
   const handleRemoveLog = useCallback((index: number) => {
     setUploadedLogs(prev => prev.filter((_, i) => i !== index))
     toast.success('Log file removed')
   }, [])
 
+  const handleRemoveSourceMap = useCallback((index: number) => {
+    setSourceMaps(prev => prev.filter((_, i) => i !== index))
+    toast.success('Source map removed')
+  }, [])
+
+  const handleLogFileOptionChange = useCallback((file: File, option: keyof ParseOptions, value: string) => {
+    setLogFileOptions(prev => {
+      const next = new Map(prev)
+      next.set(file, { ...prev.get(file), [option]: value || undefined })
+      return next
+    })
+  }, [])
+
   return (
     <div className="flex h-full gap-6">
       {/* Left Panel - Chat */}
@@ -141,8 +246,57 @@ export function ChatInterface() {
                         {file.name} ({(file.size / 1024).toFixed(1)} KB)
                       </span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={logFileOptions.get(file)?.timezone || ''}
+                        onChange={(e) => handleLogFileOptionChange(file, 'timezone', e.target.value)}
+                        placeholder="UTC"
+                        title="Timezone for timestamps without an offset (e.g. Asia/Tokyo or +09:00)"
+                        className="w-24 text-xs px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-800 dark:text-gray-300"
+                      />
+                      <select
+                        value={logFileOptions.get(file)?.format || ''}
+                        onChange={(e) => handleLogFileOptionChange(file, 'format', e.target.value)}
+                        className="text-xs px-1 py-0.5 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-800 dark:text-gray-300"
+                      >
+                        <option value="">Auto-detect</option>
+                        {[...BUILT_IN_LOG_FORMATS, ...logFormats.map(format => format.name)].map(name => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemoveLog(index)}
+                        className="text-red-500 hover:text-red-700 text-sm"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sourceMaps.length > 0 && (
+            <div className="mt-3">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Source Maps:
+              </h3>
+              <div className="space-y-2">
+                {sourceMaps.map((file, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center justify-between p-2 bg-white dark:bg-gray-700 rounded border"
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileCode className="w-4 h-4 text-purple-500" />
+                      <span className="text-sm text-gray-700 dark:text-gray-300">
+                        {file.name} ({(file.size / 1024).toFixed(1)} KB)
+                      </span>
+                    </div>
                     <button
-                      onClick={() => handleRemoveLog(index)}
+                      onClick={() => handleRemoveSourceMap(index)}
                       className="text-red-500 hover:text-red-700 text-sm"
                     >
                       Remove
@@ -156,7 +310,14 @@ export function ChatInterface() {
 
         {/* Messages */}
         <div className="flex-1 overflow-y-auto">
-          <MessageList messages={messages} isAnalyzing={isAnalyzing} />
+          <MessageList
+            messages={messages}
+            isAnalyzing={isAnalyzing}
+            phase={analysisPhase}
+            toolCalls={toolCalls}
+            redactionMapping={analysisResults?.redaction?.mapping}
+            showRealValues={showRealValues}
+          />
           <div ref={messagesEndRef} />
         </div>
 
@@ -174,12 +335,23 @@ export function ChatInterface() {
             apiKey={apiKey}
             onProviderChange={setAiProvider}
             onApiKeyChange={setApiKey}
+            logFormats={logFormats}
+            onLogFormatsChange={setLogFormats}
+            redaction={redaction}
+            onRedactionChange={setRedaction}
+            investigate={investigate}
+            onInvestigateChange={setInvestigate}
             onClose={() => setShowSettings(false)}
           />
         )}
         
         {analysisResults && (
-          <AnalysisResults results={analysisResults} />
+          <AnalysisResults
+            results={analysisResults}
+            phase={analysisPhase}
+            showRealValues={showRealValues}
+            onShowRealValuesChange={setShowRealValues}
+          />
         )}
       </div>
     </div>
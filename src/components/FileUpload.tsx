@@ -2,6 +2,7 @@
 
 import { useCallback, useState } from 'react'
 import { Upload } from 'lucide-react'
+import { UPLOAD_ACCEPT } from '@/lib/log-files'
 
 interface FileUploadProps {
   onFilesUploaded: (files: File[]) => void
@@ -54,7 +55,7 @@ export function FileUpload({ onFilesUploaded }: FileUploadProps) {
     >
       <input
         type="file"
-        accept=".log"
+        accept={UPLOAD_ACCEPT}
         multiple
         onChange={handleFileInput}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -67,7 +68,7 @@ export function FileUpload({ onFilesUploaded }: FileUploadProps) {
             Drop log files here or click to upload
           </p>
           <p className="text-xs text-gray-500 dark:text-gray-400">
-            Supports .log files
+            Supports .log files, .gz, .zip or .tar.gz archives and .map source maps
           </p>
         </div>
       </div>
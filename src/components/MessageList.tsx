@@ -1,15 +1,35 @@
 'use client'
 
-import { Message } from '@/types'
-import { User, Bot, Loader2 } from 'lucide-react'
+import { AnalysisPhase, InvestigationToolCall, Message } from '@/types'
+import { restoreRedactedText } from '@/lib/redactor'
+import { User, Bot, Loader2, Wrench } from 'lucide-react'
 import { format } from 'date-fns'
 
 interface MessageListProps {
   messages: Message[]
   isAnalyzing: boolean
+  phase?: AnalysisPhase | null
+  // Tool calls of the running investigation
+  toolCalls?: InvestigationToolCall[]
+  // Pseudonym -> original value, applied to the assistant's messages and tool calls when real values are shown
+  redactionMapping?: Record<string, string>
+  showRealValues?: boolean
 }
 
-export function MessageList({ messages, isAnalyzing }: MessageListProps) {
+const PHASE_LABELS: Record<AnalysisPhase, string> = {
+  parsing: 'Parsing log files...',
+  'follow-up': 'Reviewing the analysis so far...',
+  'code-search': 'Searching the source code...',
+  investigation: 'Investigating the code and logs...',
+  'root-cause': 'Determining the root cause...',
+  fixes: 'Generating fixes...',
+  tests: 'Generating unit tests...'
+}
+
+export function MessageList({ messages, isAnalyzing, phase, toolCalls = [], redactionMapping = {}, showRealValues = false }: MessageListProps) {
+  // The assistant's text comes from the model, which only saw pseudonyms
+  const reveal = (text: string) => showRealValues ? restoreRedactedText(text, redactionMapping) : text
+
   if (messages.length === 0 && !isAnalyzing) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -48,7 +68,7 @@ export function MessageList({ messages, isAnalyzing }: MessageListProps) {
                 : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
             }`}
           >
-            <div className="whitespace-pre-wrap">{message.content}</div>
+            <div className="whitespace-pre-wrap">{message.role === 'assistant' ? reveal(message.content) : message.content}</div>
             <div
               className={`text-xs mt-2 opacity-70 ${
                 message.role === 'user' ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400'
@@ -79,9 +99,21 @@ export function MessageList({ messages, isAnalyzing }: MessageListProps) {
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
               <span className="text-gray-700 dark:text-gray-300">
-                Analyzing logs and source code...
+                {phase ? PHASE_LABELS[phase] : 'Analyzing logs and source code...'}
               </span>
             </div>
+            {toolCalls.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {toolCalls.map((call, index) => (
+                  <div key={index} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+                    <Wrench className={`w-3 h-3 mt-0.5 flex-shrink-0 ${call.failed ? 'text-red-500' : 'text-gray-400'}`} />
+                    <span className="font-mono break-all">
+                      {call.tool}({reveal(JSON.stringify(call.input))}) — {reveal(call.summary)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
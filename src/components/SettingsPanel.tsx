@@ -1,14 +1,23 @@
 'use client'
 
 import { useState } from 'react'
-import { AIProvider } from '@/types'
-import { X, Key, Server, Check } from 'lucide-react'
+import { AIProvider, LogFormatDefinition, RedactionRule, RedactionSettings } from '@/types'
+import { LogFormatRegistry } from '@/lib/log-format-registry'
+import { REDACTION_RULES, Redactor } from '@/lib/redactor'
+import { X, Key, Server, Check, FileCode, Trash2, Shield } from 'lucide-react'
+import { toast } from 'react-hot-toast'
 
 interface SettingsPanelProps {
   aiProvider: AIProvider
   apiKey: string
   onProviderChange: (provider: AIProvider) => void
   onApiKeyChange: (apiKey: string) => void
+  logFormats: LogFormatDefinition[]
+  onLogFormatsChange: (logFormats: LogFormatDefinition[]) => void
+  redaction: RedactionSettings
+  onRedactionChange: (redaction: RedactionSettings) => void
+  investigate: boolean
+  onInvestigateChange: (investigate: boolean) => void
   onClose: () => void
 }
 
@@ -19,14 +28,32 @@ const AI_PROVIDERS = [
   { id: 'vertex' as const, name: 'Google Vertex AI', description: 'Google Cloud AI' }
 ]
 
+const REDACTION_RULE_NAMES: Record<RedactionRule, string> = {
+  'jwt': 'JWTs',
+  'api-key': 'API keys and bearer tokens',
+  'aws-key': 'AWS access keys',
+  'password': 'Passwords and credentials in URIs',
+  'credit-card': 'Credit card numbers',
+  'email': 'Email addresses',
+  'ip': 'IP addresses'
+}
+
 export function SettingsPanel({
   aiProvider,
   apiKey,
   onProviderChange,
   onApiKeyChange,
+  logFormats,
+  onLogFormatsChange,
+  redaction,
+  onRedactionChange,
+  investigate,
+  onInvestigateChange,
   onClose
 }: SettingsPanelProps) {
   const [tempApiKey, setTempApiKey] = useState(apiKey)
+  const [newFormat, setNewFormat] = useState<LogFormatDefinition>({ name: '', type: 'grok', pattern: '' })
+  const [newRedactionPattern, setNewRedactionPattern] = useState({ name: '', pattern: '' })
   const [mcpServers, setMcpServers] = useState([
     { name: 'GitHub', type: 'github', connected: false },
     { name: 'GitLab', type: 'gitlab', connected: false },
@@ -37,6 +64,60 @@ export function SettingsPanel({
     onApiKeyChange(tempApiKey)
   }
 
+  const handleAddLogFormat = () => {
+    if (logFormats.some(format => format.name === newFormat.name)) {
+      toast.error(`Log format ${newFormat.name} already exists`)
+      return
+    }
+
+    try {
+      // Compile once to reject invalid patterns before they reach the server
+      new LogFormatRegistry().register(newFormat)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid log format')
+      return
+    }
+
+    onLogFormatsChange([...logFormats, newFormat])
+    setNewFormat({ name: '', type: 'grok', pattern: '' })
+  }
+
+  const handleRemoveLogFormat = (name: string) => {
+    onLogFormatsChange(logFormats.filter(format => format.name !== name))
+  }
+
+  const enabledRedactionRules = redaction.rules || REDACTION_RULES
+
+  const toggleRedactionRule = (rule: RedactionRule) => {
+    onRedactionChange({
+      ...redaction,
+      rules: enabledRedactionRules.includes(rule)
+        ? enabledRedactionRules.filter(enabled => enabled !== rule)
+        : [...enabledRedactionRules, rule]
+    })
+  }
+
+  const handleAddRedactionPattern = () => {
+    if (redaction.customPatterns.some(custom => custom.name === newRedactionPattern.name)) {
+      toast.error(`Redaction pattern ${newRedactionPattern.name} already exists`)
+      return
+    }
+
+    try {
+      new Redactor({ enabled: true, rules: [], customPatterns: [newRedactionPattern] })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid redaction pattern')
+      return
+    }
+
+    onRedactionChange({ ...redaction, customPatterns: [...redaction.customPatterns, newRedactionPattern] })
+    setNewRedactionPattern({ name: '', pattern: '' })
+  }
+
+  const handleRemoveRedactionPattern = (name: string) => {
+    onRedactionChange({ ...redaction, customPatterns: redaction.customPatterns.filter(custom => custom.name !== name) })
+  }
+
   const toggleMcpServer = (index: number) => {
     setMcpServers(prev => prev.map((server, i) => 
       i === index ? { ...server, connected: !server.connected } : server
@@ -153,12 +234,181 @@ export function SettingsPanel({
           </p>
         </div>
 
+        {/* Custom Log Formats */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            <FileCode className="w-4 h-4 inline mr-1" />
+            Custom Log Formats
+          </label>
+          {logFormats.length > 0 && (
+            <div className="space-y-2 mb-3">
+              {logFormats.map((format) => (
+                <div
+                  key={format.name}
+                  className="flex items-start justify-between p-3 border dark:border-gray-600 rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {format.name}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                      {format.pattern}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRemoveLogFormat(format.name)}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newFormat.name}
+                onChange={(e) => setNewFormat({ ...newFormat, name: e.target.value })}
+                placeholder="Format name"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white"
+              />
+              <select
+                value={newFormat.type}
+                onChange={(e) => setNewFormat({ ...newFormat, type: e.target.value as LogFormatDefinition['type'] })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+              >
+                <option value="grok">Grok</option>
+                <option value="regex">Regex</option>
+              </select>
+            </div>
+            <input
+              type="text"
+              value={newFormat.pattern}
+              onChange={(e) => setNewFormat({ ...newFormat, pattern: e.target.value })}
+              placeholder={newFormat.type === 'regex' ? '^(?<timestamp>\\S+) (?<level>\\w+) (?<message>.*)$' : '%{TIMESTAMP_ISO8601:timestamp} %{LOGLEVEL:level} %{GREEDYDATA:message}'}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white"
+            />
+            <button
+              onClick={handleAddLogFormat}
+              disabled={!newFormat.name.trim() || !newFormat.pattern.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add Format
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Captures named timestamp, level, message, source or stackTrace fill those fields; any other capture is kept as context.
+          </p>
+        </div>
+
+        {/* Redaction */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              <Shield className="w-4 h-4 inline mr-1" />
+              Redaction
+            </label>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={redaction.enabled}
+                onChange={() => onRedactionChange({ ...redaction, enabled: !redaction.enabled })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+          {redaction.enabled && (
+            <>
+              <div className="space-y-2 mb-3">
+                {REDACTION_RULES.map((rule) => (
+                  <label key={rule} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={enabledRedactionRules.includes(rule)}
+                      onChange={() => toggleRedactionRule(rule)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                      {REDACTION_RULE_NAMES[rule]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {redaction.customPatterns.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {redaction.customPatterns.map((custom) => (
+                    <div
+                      key={custom.name}
+                      className="flex items-start justify-between p-3 border dark:border-gray-600 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-white">
+                          {custom.name}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                          {custom.pattern}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleRemoveRedactionPattern(custom.name)}
+                        className="ml-2 p-1 text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={newRedactionPattern.name}
+                  onChange={(e) => setNewRedactionPattern({ ...newRedactionPattern, name: e.target.value })}
+                  placeholder="Pattern name, e.g. customer-id"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white"
+                />
+                <input
+                  type="text"
+                  value={newRedactionPattern.pattern}
+                  onChange={(e) => setNewRedactionPattern({ ...newRedactionPattern, pattern: e.target.value })}
+                  placeholder={'CUST-\\d{6}'}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white"
+                />
+                <button
+                  onClick={handleAddRedactionPattern}
+                  disabled={!newRedactionPattern.name.trim() || !newRedactionPattern.pattern.trim()}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add Pattern
+                </button>
+              </div>
+            </>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Matches are replaced with pseudonyms such as &lt;EMAIL_1&gt; before anything is sent to the AI provider; the mapping back to the real values never leaves this app.
+          </p>
+        </div>
+
         {/* Additional Settings */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Analysis Options
           </label>
           <div className="space-y-2">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={investigate}
+                onChange={() => onInvestigateChange(!investigate)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                Investigate with code and log tools
+              </span>
+            </label>
             <label className="flex items-center">
               <input
                 type="checkbox"
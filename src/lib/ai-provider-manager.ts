@@ -3,7 +3,22 @@ import { createOpenAI } from '@ai-sdk/openai'
 import { createAnthropic } from '@ai-sdk/anthropic'
 import { vertex } from '@ai-sdk/google-vertex'
 import { bedrock } from '@ai-sdk/amazon-bedrock'
-import { generateText, streamText } from 'ai'
+import { DeepPartial, generateObject, generateText, NoObjectGeneratedError, streamObject, ToolSet } from 'ai'
+import { z } from 'zod'
+import { describeValidationError, repairJsonText, StructuredOutputError } from './structured-output'
+
+const MAX_OUTPUT_TOKENS = 4000
+
+// The first request plus one retry that tells the model what was wrong
+const MAX_STRUCTURED_ATTEMPTS = 2
+
+// Context window of the model each provider uses, in tokens
+const CONTEXT_WINDOWS: Record<AIProvider, number> = {
+  openai: 8192,
+  anthropic: 200000,
+  vertex: 2000000,
+  bedrock: 200000
+}
 
 export class AIProviderManager {
   private provider: AIProvider
@@ -42,7 +57,7 @@ export class AIProviderManager {
       const { text } = await generateText({
         model,
         prompt,
-        maxTokens: 4000,
+        maxTokens: MAX_OUTPUT_TOKENS,
         temperature: 0.1,
       })
 
@@ -53,22 +68,119 @@ export class AIProviderManager {
     }
   }
 
-  async streamAnalysis(prompt: string) {
+  // Lets the model call the tools over up to maxSteps steps and returns its final text.
+  // onStepFinish runs after each step, once its tool calls have returned.
+  async generateWithTools(
+    prompt: string,
+    tools: ToolSet,
+    maxSteps: number,
+    onStepFinish?: () => void
+  ): Promise<{ text: string, steps: number, stepLimitReached: boolean }> {
     try {
       const model = this.getModel()
-      
-      return streamText({
+
+      const { text, steps, finishReason } = await generateText({
         model,
         prompt,
-        maxTokens: 4000,
+        tools,
+        maxSteps,
+        maxTokens: MAX_OUTPUT_TOKENS,
         temperature: 0.1,
+        onStepFinish
       })
+
+      // The last step ending in tool calls means the model was cut off, not done
+      return { text, steps: steps.length, stepLimitReached: finishReason === 'tool-calls' }
     } catch (error) {
-      console.error('AI streaming error:', error)
-      throw new Error(`Failed to stream analysis with ${this.provider}`)
+      console.error('AI generation error:', error)
+      throw new Error(`Failed to run the investigation with ${this.provider}`)
     }
   }
 
+  // Generates an object matching the schema. A response that fails validation is repaired locally
+  // first (prose or code fences around the JSON, trailing commas), then retried with the validation
+  // errors; if that fails too a StructuredOutputError is thrown. With onPartial the first attempt
+  // is streamed and partial objects are passed on as they arrive.
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    onPartial?: (partial: DeepPartial<T>) => void
+  ): Promise<T> {
+    let attemptPrompt = prompt
+    let lastError: NoObjectGeneratedError | undefined
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      try {
+        if (attempt === 1 && onPartial) return await this.streamAnalysis(attemptPrompt, schema, onPartial)
+
+        const model = this.getModel()
+
+        const { object } = await generateObject({
+          model,
+          schema,
+          prompt: attemptPrompt,
+          maxTokens: MAX_OUTPUT_TOKENS,
+          temperature: 0.1,
+          experimental_repairText: async ({ text }) => repairJsonText(text)
+        })
+
+        return object
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error)) {
+          console.error('AI generation error:', error)
+          throw new Error(`Failed to generate analysis with ${this.provider}`)
+        }
+
+        console.error(`Structured output attempt ${attempt} failed validation:`, describeValidationError(error))
+        lastError = error
+        attemptPrompt = `${prompt}
+
+Your previous response did not match the required JSON schema: ${describeValidationError(error)}
+Respond again with only the corrected JSON.`
+      }
+    }
+
+    throw new StructuredOutputError(describeValidationError(lastError), MAX_STRUCTURED_ATTEMPTS, lastError?.text)
+  }
+
+  private async streamAnalysis<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    onPartial: (partial: DeepPartial<T>) => void
+  ): Promise<T> {
+    const model = this.getModel()
+    let streamError: unknown
+
+    const result = streamObject({
+      model,
+      schema,
+      prompt,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.1,
+      onError: ({ error }) => {
+        streamError = error
+      }
+    })
+
+    for await (const partial of result.partialObjectStream) onPartial(partial)
+    if (streamError && !NoObjectGeneratedError.isInstance(streamError)) throw streamError
+
+    try {
+      return await result.object
+    } catch (error) {
+      // streamObject has no repair hook, so the same repair is applied here
+      const repaired = NoObjectGeneratedError.isInstance(error) && error.text ? repairJsonText(error.text) : null
+      const parsed = repaired ? schema.safeParse(JSON.parse(repaired)) : undefined
+      if (parsed?.success) return parsed.data
+      throw error
+    }
+  }
+
+  // Tokens a prompt may use while leaving room for the longest response
+  getPromptTokenBudget(): number {
+    return CONTEXT_WINDOWS[this.provider] - MAX_OUTPUT_TOKENS
+  }
+
   getProviderName(): string {
     const names = {
       openai: 'OpenAI',
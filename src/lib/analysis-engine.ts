@@ -1,21 +1,99 @@
-import { AnalysisResult, ParsedLog, SuggestedFix, UnitTest } from '@/types'
+import { AnalysisParseError, AnalysisPhase, AnalysisResult, AnalysisStreamEvent, CodeAnalysis, CodeSnippet, ConversationTurn, InvestigationReport, SuggestedFix, ParsedLog, PromptContextReport, StackFrame, TimelineEvent, UnitTest } from '@/types'
+import { DeepPartial } from 'ai'
+import { z } from 'zod'
 import { AIProviderManager } from './ai-provider-manager'
 import { MCPManager } from './mcp-manager'
-import { LogParser } from './log-parser'
+import { buildIncidentTimeline, mergeIncidentTimeline } from './incident-timeline'
+import { getTemplateWords } from './log-template-miner'
+import { isErrorLevel } from './log-levels'
+import { buildLogContext, CHARS_PER_TOKEN, estimateTokens } from './log-context-builder'
+import { Redactor } from './redactor'
+import { formatStackFrame, getInAppFrames, getSourcePathCandidates, parseStackTrace } from './stack-frames'
+import { AnalysisResponse, analysisResponseSchema, FollowUpResponse, followUpResponseSchema, suggestedFixesSchema, unitTestSchema } from './analysis-schemas'
+import { StructuredOutputError } from './structured-output'
+import { InvestigationToolkit } from './investigation-tools'
+
+// Failing frames whose source is fetched, and the lines shown on each side of the failing line
+const MAX_CODE_SNIPPETS = 3
+const SNIPPET_CONTEXT_LINES = 8
+
+// Earlier chat messages a follow-up prompt repeats, and how much of each
+const MAX_HISTORY_MESSAGES = 10
+const MAX_HISTORY_MESSAGE_LENGTH = 2000
+
+// Model steps in investigation mode; each step may call several tools
+const MAX_INVESTIGATION_STEPS = 8
+// Share of the prompt budget for the log excerpt the investigation starts from; tool results need the rest
+const INVESTIGATION_CONTEXT_SHARE = 0.25
+// Share of the analysis prompt budget for the investigation notes and tool outputs
+const INVESTIGATION_EVIDENCE_SHARE = 0.3
+
+function formatCodeSnippet(snippet: CodeSnippet): string {
+  const width = String(snippet.endLine).length
+  const code = snippet.code
+    .split('\n')
+    .map((line, index) => {
+      const lineNumber = snippet.startLine + index
+      return `${lineNumber === snippet.frame.line ? '>' : ' '} ${String(lineNumber).padStart(width)} | ${line}`
+    })
+    .join('\n')
+  return `${formatStackFrame(snippet.frame)} in ${snippet.path}:\n${code}`
+}
+
+function formatFix(fix: SuggestedFix): string {
+  const header = `- [${fix.id}] ${fix.description} (${fix.priority} priority, ${fix.type}${fix.filePath ? `, ${fix.filePath}` : ''})`
+  return fix.code ? `${header}\n${fix.code}` : header
+}
+
+// Fix ids are fix-<n>; new fixes continue after the highest one so replaced ids are never reused
+function getNextFixIndex(fixes: SuggestedFix[]): number {
+  return fixes.reduce((next, fix) => Math.max(next, Number(fix.id.match(/^fix-(\d+)$/)?.[1] ?? -1) + 1), 0)
+}
+
+// Turns the growing text of one field of a streamed response into chat text deltas
+function streamTextField<T>(
+  onEvent: ((event: AnalysisStreamEvent) => void) | undefined,
+  getText: (partial: DeepPartial<T>) => string | undefined
+): ((partial: DeepPartial<T>) => void) | undefined {
+  if (!onEvent) return undefined
+
+  let streamedText = ''
+  return partial => {
+    const text = getText(partial) || ''
+    if (text.length <= streamedText.length || !text.startsWith(streamedText)) return
+    onEvent({ type: 'text', delta: text.slice(streamedText.length) })
+    streamedText = text
+  }
+}
+
+interface Investigation {
+  report: InvestigationReport
+  // Notes and tool outputs for the analysis prompt
+  evidence: string
+  files: string[]
+  serversUsed: string[]
+}
 
 interface AnalysisRequest {
   userMessage: string
   logs?: ParsedLog | null
+  // Earlier chat messages and the analysis they produced, when the message may be a follow-up
+  history?: ConversationTurn[]
+  previousResult?: AnalysisResult | null
   includeFixes?: boolean
   includeTests?: boolean
   includeCodeAnalysis?: boolean
+  // Let the model investigate with code and log tools before the root cause analysis
+  investigate?: boolean
+  // Receives phase changes, the assistant text as it streams and each part of the result once final
+  onEvent?: (event: AnalysisStreamEvent) => void
 }
 
 export class AnalysisEngine {
   constructor(
     private aiProvider: AIProviderManager,
     private mcpManager: MCPManager,
-    private logParser: LogParser
+    private redactor = new Redactor()
   ) {}
 
   async analyze(request: AnalysisRequest): Promise<AnalysisResult> {
@@ -24,86 +102,297 @@ export class AnalysisEngine {
       logs,
       includeFixes = true,
       includeTests = true,
-      includeCodeAnalysis = true
+      includeCodeAnalysis = true,
+      investigate = false,
+      previousResult,
+      onEvent
     } = request
 
+    // A follow-up question refines the previous analysis instead of starting over
+    if (previousResult && !previousResult.rulesOnly) {
+      const followUp = await this.answerFollowUp(request, previousResult)
+      if (followUp) return followUp
+    }
+
+    // Draft the incident timeline from the logs; the model refines it
+    const draftTimeline = logs ? buildIncidentTimeline(logs) : []
+
+    // Fetch the source around the top in-app stack frames so the model sees the failing code
+    const failingFrames = logs ? this.getFailingFrames(logs) : []
+    const codeSnippets = includeCodeAnalysis
+      ? await this.runPhase('code-search', onEvent, () => this.fetchCodeSnippets(failingFrames))
+      : []
+
+    // In investigation mode the model gathers its own evidence with the code and log tools first
+    const investigation = investigate
+      ? await this.runPhase('investigation', onEvent, () => this.investigate(userMessage, logs, draftTimeline, codeSnippets, onEvent))
+      : undefined
+
     // Build analysis prompt
-    const prompt = this.buildAnalysisPrompt(userMessage, logs)
+    const { prompt, context } = this.buildAnalysisPrompt(userMessage, logs, draftTimeline, codeSnippets, investigation?.evidence)
     
-    // Get AI analysis
-    const aiResponse = await this.aiProvider.generateAnalysis(prompt)
-    
-    // Parse AI response to extract structured data
-    const analysisResult = this.parseAIResponse(aiResponse)
+    // Get AI analysis, validated against the response schema
+    const parseErrors: AnalysisParseError[] = []
+    let response: AnalysisResponse | undefined
+    let rawResponse = ''
+    try {
+      // The summary becomes the assistant's chat message, so it is passed on as it is written
+      response = await this.runPhase('root-cause', onEvent, () =>
+        this.generateStructured(prompt, analysisResponseSchema, streamTextField(onEvent, partial => partial.summary))
+      )
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error
+      parseErrors.push({ step: 'analysis', message: error.message, attempts: error.attempts })
+      rawResponse = error.text || ''
+    }
+
+    const analysisResult: AnalysisResult = response ? this.parseAIResponse(response) : {
+      rootCause: 'The model did not return a valid analysis',
+      affectedComponents: [],
+      suggestedFixes: [],
+      unitTests: [],
+      confidence: 0,
+      reasoning: rawResponse
+    }
+    analysisResult.anomalies = logs?.anomalies
+    analysisResult.findings = logs?.findings
+    analysisResult.context = context
+    analysisResult.timeline = mergeIncidentTimeline(draftTimeline, response?.timeline, logs)
+    analysisResult.investigation = investigation?.report
+    onEvent?.({ type: 'partial', result: { ...analysisResult } })
     
-    // Enhance with code analysis if requested
+    // Enhance with code analysis if requested; an investigation already read the code it needed
     if (includeCodeAnalysis && logs) {
-      const codeAnalysis = await this.performCodeAnalysis(logs, analysisResult.rootCause)
+      const codeAnalysis = investigation && !investigation.report.error
+        ? this.getInvestigatedCode(investigation, codeSnippets)
+        : await this.runPhase('code-search', onEvent, () =>
+          this.performCodeAnalysis(logs, analysisResult.rootCause, failingFrames, codeSnippets)
+        )
       analysisResult.codeAnalysis = codeAnalysis
+      onEvent?.({ type: 'partial', result: { codeAnalysis } })
     }
 
     // Generate fixes if requested
     if (includeFixes) {
-      const fixes = await this.generateFixes(analysisResult.rootCause, logs)
+      const fixes = await this.runPhase('fixes', onEvent, () =>
+        this.generateFixes(analysisResult.rootCause, parseErrors, logs, codeSnippets)
+      )
       analysisResult.suggestedFixes = fixes
+      onEvent?.({ type: 'partial', result: { suggestedFixes: fixes } })
     }
 
     // Generate tests if requested
     if (includeTests && analysisResult.suggestedFixes.length > 0) {
-      const tests = await this.generateUnitTests(analysisResult.suggestedFixes)
+      const tests = await this.runPhase('tests', onEvent, () =>
+        this.generateUnitTests(analysisResult.suggestedFixes, parseErrors)
+      )
       analysisResult.unitTests = tests
+      onEvent?.({ type: 'partial', result: { unitTests: tests } })
     }
 
+    analysisResult.redaction = this.redactor.getReport()
+    if (parseErrors.length > 0) analysisResult.parseErrors = parseErrors
     return analysisResult
   }
 
-  private buildAnalysisPrompt(userMessage: string, logs?: ParsedLog | null): string {
-    let prompt = `You are an expert system administrator and software engineer specializing in root cause analysis of system errors and incidents.
+  private async investigate(
+    userMessage: string,
+    logs: ParsedLog | null | undefined,
+    draftTimeline: TimelineEvent[],
+    codeSnippets: CodeSnippet[],
+    onEvent: AnalysisRequest['onEvent']
+  ): Promise<Investigation> {
+    const toolkit = new InvestigationToolkit(this.mcpManager, logs, this.redactor, call => onEvent?.({ type: 'tool-call', call }))
+    const tools = toolkit.getTools()
+    const report: InvestigationReport = { toolCalls: [], steps: 0, maxSteps: MAX_INVESTIGATION_STEPS, stepLimitReached: false, notes: '' }
+
+    if (Object.keys(tools).length === 0) {
+      report.error = 'No MCP servers are connected and no logs were uploaded, so there was nothing to investigate'
+      return { report, evidence: '', files: [], serversUsed: [] }
+    }
+
+    try {
+      const prompt = this.buildInvestigationPrompt(userMessage, Object.keys(tools), logs, draftTimeline, codeSnippets)
+      const { text, steps, stepLimitReached } = await this.aiProvider.generateWithTools(
+        this.redactor.redact(prompt),
+        tools,
+        MAX_INVESTIGATION_STEPS,
+        () => toolkit.nextStep()
+      )
+      report.notes = text
+      report.steps = steps
+      report.stepLimitReached = stepLimitReached
+    } catch (error) {
+      // Not every model supports tool calls; the analysis goes ahead with the log excerpt alone
+      console.error('Investigation failed:', error)
+      report.error = error instanceof Error ? error.message : 'The investigation failed'
+    }
+    report.toolCalls = toolkit.getToolCalls()
+
+    // Tool outputs share what is left of the evidence budget after the notes
+    const evidenceChars = this.aiProvider.getPromptTokenBudget() * INVESTIGATION_EVIDENCE_SHARE * CHARS_PER_TOKEN - report.notes.length
+    const outputChars = Math.max(200, Math.floor(evidenceChars / Math.max(1, report.toolCalls.length)))
+    const transcript = toolkit.getTranscript(outputChars)
+    const evidence = [
+      report.notes && `Investigation Notes:\n${report.notes}`,
+      transcript && `Investigation Tool Calls and Results:\n${transcript}`
+    ].filter(Boolean).join('\n\n')
+
+    return {
+      report,
+      evidence: evidence && `${evidence}\n\n`,
+      files: toolkit.getFiles(),
+      serversUsed: toolkit.getServersUsed()
+    }
+  }
+
+  private buildInvestigationPrompt(
+    userMessage: string,
+    toolNames: string[],
+    logs: ParsedLog | null | undefined,
+    draftTimeline: TimelineEvent[],
+    codeSnippets: CodeSnippet[]
+  ): string {
+    const introduction = `You are an expert system administrator and software engineer investigating an incident before writing its root cause analysis.
 
 User's incident description:
 ${userMessage}
 
 `
 
+    const code = codeSnippets.length > 0 ? `Source Code at the Failing Stack Frames (> marks the failing line):
+${codeSnippets.map(formatCodeSnippet).join('\n\n')}
+
+` : ''
+
+    const guidance = [
+      toolNames.includes('readFile') && '- searchCode, listFiles and readFile to find and read the code involved, beyond the failing lines above',
+      toolNames.includes('queryLogs') && '- queryLogs, listErrorPatterns and getRequestChain to look beyond the log excerpt above'
+    ].filter(Boolean).join('\n')
+
+    const instructions = `Investigate this incident with the tools available to you:
+${guidance}
+
+Check each hypothesis against the code and the logs instead of guessing. You have at most ${MAX_INVESTIGATION_STEPS} steps, and each step can call several tools.
+
+When you are done, reply with investigation notes: what you checked, what you found, and the most likely root cause with the evidence for it.`
+
     if (logs && logs.entries.length > 0) {
-      prompt += `Log Analysis Context:
-- Total log entries: ${logs.totalEntries}
-- Error count: ${logs.errorCount}
-- Warning count: ${logs.warnCount}
-- Time range: ${logs.timeRange.start.toISOString()} to ${logs.timeRange.end.toISOString()}
-- Sources: ${logs.sources.join(', ')}
-
-Recent Error Log Entries:
-${logs.entries
-  .filter(entry => entry.level === 'error')
-  .slice(0, 10)
-  .map(entry => `[${entry.timestamp}] ${entry.level.toUpperCase()}: ${entry.message}${entry.source ? ` (Source: ${entry.source})` : ''}${entry.stackTrace ? `\nStack: ${entry.stackTrace}` : ''}`)
-  .join('\n\n')}
-
-Recent Warning Log Entries:
-${logs.entries
-  .filter(entry => entry.level === 'warn')
-  .slice(0, 5)
-  .map(entry => `[${entry.timestamp}] ${entry.level.toUpperCase()}: ${entry.message}${entry.source ? ` (Source: ${entry.source})` : ''}`)
-  .join('\n\n')}
+      const budget = Math.floor(this.aiProvider.getPromptTokenBudget() * INVESTIGATION_CONTEXT_SHARE) - estimateTokens(introduction + code + instructions)
+      return introduction + buildLogContext(logs, draftTimeline, budget).text + code + instructions
+    }
 
-Error Patterns Detected:
-${this.logParser.extractErrorPatterns(logs.entries).join(', ')}
+    return introduction + code + instructions
+  }
 
-`
+  private getInvestigatedCode(investigation: Investigation, codeSnippets: CodeSnippet[]): CodeAnalysis {
+    const affectedFiles = new Set([...codeSnippets.map(snippet => snippet.path), ...investigation.files])
+    return {
+      affectedFiles: Array.from(affectedFiles).slice(0, 20),
+      potentialIssues: [],
+      dependencies: [],
+      mcpServerUsed: investigation.serversUsed,
+      codeSnippets
     }
+  }
 
-    prompt += `Please analyze this incident and provide a comprehensive root cause analysis. Your response should be in the following JSON format:
+  // Answers a question about the previous analysis and applies the revisions in the answer.
+  // Returns null when the model finds the message describes a new incident.
+  private async answerFollowUp(request: AnalysisRequest, previous: AnalysisResult): Promise<AnalysisResult | null> {
+    const { userMessage, logs, history = [], includeFixes = true, includeTests = true, onEvent } = request
+    const { prompt, context } = this.buildFollowUpPrompt(userMessage, history, previous, logs)
 
-{
-  "summary": "Brief summary of the analysis",
-  "rootCause": "The primary root cause of the issue",
-  "affectedComponents": ["component1", "component2"],
-  "confidence": 0.95,
-  "reasoning": "Detailed explanation of how you arrived at this conclusion, including analysis of log patterns, timing, and system behavior",
-  "immediateActions": ["action1", "action2"],
-  "preventionMeasures": ["measure1", "measure2"]
-}
+    const parseErrors: AnalysisParseError[] = []
+    let response: FollowUpResponse
+    try {
+      response = await this.runPhase('follow-up', onEvent, () => this.generateStructured(prompt, followUpResponseSchema,
+        streamTextField(onEvent, partial => partial.newIncident ? undefined : partial.answer)
+      ))
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error
+      parseErrors.push({ step: 'analysis', message: error.message, attempts: error.attempts })
+      return {
+        ...previous,
+        summary: error.text || 'The model did not return a valid answer',
+        redaction: this.redactor.getReport(),
+        parseErrors
+      }
+    }
+    if (response.newIncident) return null
+
+    const replacedFixIds = new Set(response.replacedFixIds)
+    const nextFixIndex = getNextFixIndex(previous.suggestedFixes)
+    const newFixes: SuggestedFix[] = includeFixes
+      ? response.fixes.map((fix, index) => ({ id: `fix-${nextFixIndex + index}`, ...fix }))
+      : []
+
+    const result: AnalysisResult = {
+      ...previous,
+      summary: response.answer,
+      rootCause: response.rootCause ?? previous.rootCause,
+      affectedComponents: response.affectedComponents ?? previous.affectedComponents,
+      confidence: response.confidence ?? previous.confidence,
+      reasoning: response.reasoning ?? previous.reasoning,
+      immediateActions: response.immediateActions ?? previous.immediateActions,
+      preventionMeasures: response.preventionMeasures ?? previous.preventionMeasures,
+      suggestedFixes: [...previous.suggestedFixes.filter(fix => !replacedFixIds.has(fix.id)), ...newFixes],
+      unitTests: previous.unitTests.filter(test => !replacedFixIds.has(test.id.replace(/^test-/, ''))),
+      anomalies: logs?.anomalies ?? previous.anomalies,
+      findings: logs?.findings ?? previous.findings,
+      context: context ?? previous.context,
+      parseErrors: undefined
+    }
+    onEvent?.({ type: 'partial', result: { ...result } })
+
+    if (includeTests && newFixes.length > 0) {
+      const tests = await this.runPhase('tests', onEvent, () => this.generateUnitTests(newFixes, parseErrors))
+      result.unitTests = [...result.unitTests, ...tests]
+      onEvent?.({ type: 'partial', result: { unitTests: result.unitTests } })
+    }
+
+    result.redaction = this.redactor.getReport()
+    if (parseErrors.length > 0) result.parseErrors = parseErrors
+    return result
+  }
+
+  // Every prompt goes through the redactor, so personal data and secrets never reach the provider
+  private generateStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    onPartial?: (partial: DeepPartial<T>) => void
+  ): Promise<T> {
+    return this.aiProvider.generateStructured(this.redactor.redact(prompt), schema, onPartial)
+  }
+
+  private async runPhase<T>(phase: AnalysisPhase, onEvent: AnalysisRequest['onEvent'], run: () => Promise<T>): Promise<T> {
+    onEvent?.({ type: 'phase', phase, status: 'started' })
+    try {
+      return await run()
+    } finally {
+      onEvent?.({ type: 'phase', phase, status: 'completed' })
+    }
+  }
+
+  private buildAnalysisPrompt(
+    userMessage: string,
+    logs?: ParsedLog | null,
+    draftTimeline: TimelineEvent[] = [],
+    codeSnippets: CodeSnippet[] = [],
+    investigation = ''
+  ): { prompt: string, context?: PromptContextReport } {
+    const introduction = `You are an expert system administrator and software engineer specializing in root cause analysis of system errors and incidents.
+
+User's incident description:
+${userMessage}
+
+`
+
+    const code = codeSnippets.length > 0 ? `Source Code at the Failing Stack Frames (> marks the failing line):
+${codeSnippets.map(formatCodeSnippet).join('\n\n')}
+
+` : ''
+
+    const instructions = `Please analyze this incident and provide a comprehensive root cause analysis as JSON matching the provided schema.
 
 Focus on:
 1. Identifying the primary root cause based on log patterns and user description
@@ -112,48 +401,158 @@ Focus on:
 4. Explaining your reasoning process clearly
 5. Suggesting immediate actions to resolve the issue
 6. Recommending prevention measures for the future
+7. Ordering the incident timeline from first symptom to recovery, correcting or adding to the draft timeline
+8. Confirming or ruling out the known failure patterns the rule-based detectors matched${investigation ? `
+9. Building on the investigation notes and the code and logs the tool calls returned` : ''}
 
 Be specific and actionable in your recommendations.`
 
-    return prompt
+    // The log context gets whatever the model's window leaves after the description and instructions
+    if (logs && logs.entries.length > 0) {
+      const budget = this.aiProvider.getPromptTokenBudget() - estimateTokens(introduction + code + investigation + instructions)
+      const context = buildLogContext(logs, draftTimeline, budget)
+      return { prompt: introduction + context.text + code + investigation + instructions, context: context.report }
+    }
+
+    return { prompt: introduction + code + investigation + instructions }
   }
 
-  private parseAIResponse(response: string): AnalysisResult {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response')
-      }
+  private buildFollowUpPrompt(
+    userMessage: string,
+    history: ConversationTurn[],
+    previous: AnalysisResult,
+    logs?: ParsedLog | null
+  ): { prompt: string, context?: PromptContextReport } {
+    const findings = (previous.findings || []).map(finding => `- ${finding.title} (x${finding.matchCount})`).join('\n')
+    const fixes = previous.suggestedFixes.map(formatFix).join('\n')
+    const conversation = history
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH)}`)
+      .join('\n\n')
+
+    const introduction = `You are an expert system administrator and software engineer continuing a root cause analysis with the user.
+
+Current analysis:
+Root cause: ${previous.rootCause}
+Confidence: ${previous.confidence}
+Affected components: ${previous.affectedComponents.join(', ') || 'none identified'}
+Reasoning: ${previous.reasoning}
+
+${findings ? `Known failure patterns matched by the rule-based detectors:
+${findings}
+
+` : ''}${fixes ? `Suggested fixes:
+${fixes}
+
+` : ''}${conversation ? `Conversation so far:
+${conversation}
+
+` : ''}User's new message:
+${userMessage}
 
-      const parsed = JSON.parse(jsonMatch[0])
-      
-      return {
-        rootCause: parsed.rootCause || 'Unable to determine root cause',
-        affectedComponents: parsed.affectedComponents || [],
-        suggestedFixes: [],
-        unitTests: [],
-        confidence: parsed.confidence || 0.5,
-        reasoning: parsed.reasoning || 'Analysis completed',
-        codeAnalysis: undefined
-      }
-    } catch (error) {
-      console.error('Failed to parse AI response:', error)
-      
-      // Fallback: create a basic analysis result
-      return {
-        rootCause: 'Error analysis completed, but response parsing failed',
-        affectedComponents: [],
-        suggestedFixes: [],
-        unitTests: [],
-        confidence: 0.3,
-        reasoning: response,
-        codeAnalysis: undefined
+`
+
+    const codeSnippets = previous.codeAnalysis?.codeSnippets || []
+    const code = codeSnippets.length > 0 ? `Source Code at the Failing Stack Frames (> marks the failing line):
+${codeSnippets.map(formatCodeSnippet).join('\n\n')}
+
+` : ''
+
+    const instructions = `First decide whether the new message follows up on this analysis or describes a different incident. For a different incident set newIncident to true and leave everything else empty; it will be analyzed from scratch.
+
+Otherwise respond with JSON matching the provided schema:
+1. Answer the message directly, citing the logs and code that support the answer
+2. Revise the root cause, affected components, confidence, reasoning, immediate actions or prevention measures only when the message or the evidence changes them
+3. Add the fixes the user asks for, such as a variant for a different database or framework, and list the ids of the existing fixes they replace
+4. Leave fixes empty when the message only asks for an explanation`
+
+    if (logs && logs.entries.length > 0) {
+      const budget = this.aiProvider.getPromptTokenBudget() - estimateTokens(introduction + code + instructions)
+      const context = buildLogContext(logs, previous.timeline || buildIncidentTimeline(logs), budget)
+      return { prompt: introduction + context.text + code + instructions, context: context.report }
+    }
+
+    return { prompt: introduction + code + instructions }
+  }
+
+  private parseAIResponse(response: AnalysisResponse): AnalysisResult {
+    return {
+      summary: response.summary,
+      rootCause: response.rootCause,
+      affectedComponents: response.affectedComponents,
+      suggestedFixes: [],
+      unitTests: [],
+      confidence: response.confidence,
+      reasoning: response.reasoning,
+      immediateActions: response.immediateActions,
+      preventionMeasures: response.preventionMeasures,
+      codeAnalysis: undefined
+    }
+  }
+
+  // Top in-app frames of the most severe error clusters' stack traces, then of individual error entries
+  private getFailingFrames(logs: ParsedLog): StackFrame[] {
+    const traces = [
+      ...logs.clusters.filter(cluster => cluster.errorCount > 0),
+      ...logs.entries.filter(entry => isErrorLevel(entry.level))
+    ]
+
+    const frames = new Map<string, StackFrame>()
+    const seen = new Set<string>()
+    for (const { stackTrace, stackFrames } of traces) {
+      if (!stackTrace || seen.has(stackTrace)) continue
+      seen.add(stackTrace)
+      // The innermost two frames of each trace, so one deep trace doesn't crowd out the others.
+      // Frames source maps rewrote point at the original source rather than the bundle.
+      getInAppFrames(stackFrames || parseStackTrace(stackTrace)).slice(0, 2).forEach(frame => {
+        const key = `${frame.file}:${frame.line}`
+        if (!frames.has(key)) frames.set(key, frame)
+      })
+      if (frames.size >= MAX_CODE_SNIPPETS * 2) break
+    }
+    return Array.from(frames.values())
+  }
+
+  private async fetchCodeSnippets(frames: StackFrame[]): Promise<CodeSnippet[]> {
+    const snippets: CodeSnippet[] = []
+    for (const frame of frames) {
+      if (snippets.length >= MAX_CODE_SNIPPETS) break
+      const snippet = await this.readCodeSnippet(frame)
+      if (snippet) snippets.push(snippet)
+    }
+    return snippets
+  }
+
+  // Tries each connected server and candidate path until one has a file long enough to contain the frame's line
+  private async readCodeSnippet(frame: StackFrame): Promise<CodeSnippet | undefined> {
+    if (!frame.line) return undefined
+
+    for (const server of this.mcpManager.getConnectedServers()) {
+      for (const path of getSourcePathCandidates(frame)) {
+        try {
+          const lines = (await this.mcpManager.getFileContent(path, server.id)).split('\n')
+          if (lines.length < frame.line) continue
+
+          const startLine = Math.max(1, frame.line - SNIPPET_CONTEXT_LINES)
+          const endLine = Math.min(lines.length, frame.line + SNIPPET_CONTEXT_LINES)
+          return {
+            frame,
+            path,
+            serverId: server.id,
+            startLine,
+            endLine,
+            code: lines.slice(startLine - 1, endLine).join('\n')
+          }
+        } catch (error) {
+          console.error(`Failed to read ${path} from ${server.name}:`, error)
+        }
       }
     }
+
+    return undefined
   }
 
-  private async performCodeAnalysis(logs: ParsedLog, rootCause: string) {
+  private async performCodeAnalysis(logs: ParsedLog, rootCause: string, failingFrames: StackFrame[] = [], codeSnippets: CodeSnippet[] = []) {
     const connectedServers = this.mcpManager.getConnectedServers()
     
     if (connectedServers.length === 0) {
@@ -165,13 +564,13 @@ Be specific and actionable in your recommendations.`
       }
     }
 
-    const affectedFiles: string[] = []
+    const affectedFiles: string[] = codeSnippets.map(snippet => snippet.path)
     const potentialIssues: string[] = []
     const dependencies: string[] = []
     const mcpServerUsed: string[] = []
 
     // Extract keywords from logs and root cause for code search
-    const searchTerms = this.extractSearchTerms(logs, rootCause)
+    const searchTerms = this.extractSearchTerms(logs, rootCause, failingFrames)
     
     for (const server of connectedServers) {
       try {
@@ -196,12 +595,19 @@ Be specific and actionable in your recommendations.`
       affectedFiles: affectedFiles.slice(0, 20), // Limit results
       potentialIssues,
       dependencies,
-      mcpServerUsed
+      mcpServerUsed,
+      codeSnippets
     }
   }
 
-  private extractSearchTerms(logs: ParsedLog, rootCause: string): string[] {
+  private extractSearchTerms(logs: ParsedLog, rootCause: string, failingFrames: StackFrame[] = []): string[] {
     const terms = new Set<string>()
+
+    // Functions in the failing frames are the most precise terms there are
+    failingFrames.forEach(frame => {
+      const name = frame.function?.split('.').pop()?.replace(/[^\w$]/g, '')
+      if (name && name.length >= 3) terms.add(name)
+    })
     
     // Extract from root cause
     const rootCauseWords = rootCause.toLowerCase().match(/\b\w{3,}\b/g) || []
@@ -211,12 +617,12 @@ Be specific and actionable in your recommendations.`
       }
     })
     
-    // Extract from error messages
-    logs.entries
-      .filter(entry => entry.level === 'error')
+    // Extract from the most severe error templates
+    logs.clusters
+      .filter(cluster => cluster.errorCount > 0)
       .slice(0, 5)
-      .forEach(entry => {
-        const words = entry.message.toLowerCase().match(/\b\w{3,}\b/g) || []
+      .forEach(cluster => {
+        const words = getTemplateWords(cluster.template).join(' ').toLowerCase().match(/\b\w{3,}\b/g) || []
         words.forEach(word => {
           if (!['the', 'and', 'or', 'but', 'error', 'failed'].includes(word)) {
             terms.add(word)
@@ -227,11 +633,23 @@ Be specific and actionable in your recommendations.`
     return Array.from(terms).slice(0, 10) // Limit search terms
   }
 
-  private async generateFixes(rootCause: string, logs?: ParsedLog | null): Promise<SuggestedFix[]> {
+  private async generateFixes(
+    rootCause: string,
+    parseErrors: AnalysisParseError[],
+    logs?: ParsedLog | null,
+    codeSnippets: CodeSnippet[] = []
+  ): Promise<SuggestedFix[]> {
     const fixPrompt = `Based on the root cause analysis: "${rootCause}"
 
 ${logs ? `And the following error patterns:
-${this.logParser.extractErrorPatterns(logs.entries).join(', ')}` : ''}
+${logs.clusters
+  .filter(cluster => cluster.errorCount > 0)
+  .slice(0, 5)
+  .map(cluster => `- ${cluster.template} (x${cluster.count})`)
+  .join('\n')}` : ''}
+
+${codeSnippets.length > 0 ? `The failing code (> marks the failing line):
+${codeSnippets.map(formatCodeSnippet).join('\n\n')}` : ''}
 
 Generate 3-5 specific code fixes or configuration changes to resolve this issue. For each fix, provide:
 
@@ -242,52 +660,22 @@ Generate 3-5 specific code fixes or configuration changes to resolve this issue.
 5. The file path where the fix should be applied
 6. A detailed explanation of why this fix addresses the root cause
 
-Format your response as a JSON array of fix objects:
-
-[
-  {
-    "description": "Fix description",
-    "priority": "high|medium|low",
-    "type": "code|configuration|infrastructure",
-    "code": "actual code to implement",
-    "filePath": "path/to/file.ts",
-    "explanation": "Why this fix addresses the issue"
-  }
-]`
+Respond with JSON matching the provided schema.`
 
     try {
-      const response = await this.aiProvider.generateAnalysis(fixPrompt)
-      const jsonMatch = response.match(/\[[\s\S]*\]/)
-      
-      if (jsonMatch) {
-        const fixes = JSON.parse(jsonMatch[0])
-        return fixes.map((fix: any, index: number) => ({
-          id: `fix-${index}`,
-          description: fix.description || 'Generated fix',
-          priority: fix.priority || 'medium',
-          type: fix.type || 'code',
-          code: fix.code,
-          filePath: fix.filePath,
-          explanation: fix.explanation || 'Generated fix explanation'
-        }))
-      }
+      const { fixes } = await this.generateStructured(fixPrompt, suggestedFixesSchema)
+      return fixes.map((fix, index) => ({ id: `fix-${index}`, ...fix }))
     } catch (error) {
-      console.error('Failed to generate fixes:', error)
-    }
-
-    // Fallback fixes
-    return [
-      {
-        id: 'fix-1',
-        description: 'Add error handling and retry logic',
-        priority: 'high',
-        type: 'code',
-        explanation: 'Implement proper error handling to gracefully handle failures and prevent cascading issues'
+      if (error instanceof StructuredOutputError) {
+        parseErrors.push({ step: 'fixes', message: error.message, attempts: error.attempts })
+      } else {
+        console.error('Failed to generate fixes:', error)
       }
-    ]
+      return []
+    }
   }
 
-  private async generateUnitTests(fixes: SuggestedFix[]): Promise<UnitTest[]> {
+  private async generateUnitTests(fixes: SuggestedFix[], parseErrors: AnalysisParseError[]): Promise<UnitTest[]> {
     const tests: UnitTest[] = []
     
     for (const fix of fixes.slice(0, 3)) { // Generate tests for first 3 fixes
@@ -305,30 +693,17 @@ Generate a unit test that:
 3. Tests edge cases
 4. Uses appropriate testing framework (Jest/Mocha for TypeScript/JavaScript, pytest for Python)
 
-Format as JSON:
-{
-  "description": "Test description",
-  "framework": "jest|mocha|pytest",
-  "code": "complete test code",
-  "filePath": "path/to/test/file"
-}`
+Respond with JSON matching the provided schema.`
 
         try {
-          const response = await this.aiProvider.generateAnalysis(testPrompt)
-          const jsonMatch = response.match(/\{[\s\S]*\}/)
-          
-          if (jsonMatch) {
-            const test = JSON.parse(jsonMatch[0])
-            tests.push({
-              id: `test-${fix.id}`,
-              description: test.description || `Test for ${fix.description}`,
-              framework: test.framework || 'jest',
-              code: test.code || '// Test code generation failed',
-              filePath: test.filePath || fix.filePath.replace(/\.ts$/, '.test.ts')
-            })
-          }
+          const test = await this.generateStructured(testPrompt, unitTestSchema)
+          tests.push({ id: `test-${fix.id}`, ...test })
         } catch (error) {
-          console.error('Failed to generate test for fix:', fix.id, error)
+          if (error instanceof StructuredOutputError) {
+            parseErrors.push({ step: 'tests', message: `${fix.id}: ${error.message}`, attempts: error.attempts })
+          } else {
+            console.error('Failed to generate test for fix:', fix.id, error)
+          }
         }
       }
     }
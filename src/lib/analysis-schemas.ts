@@ -0,0 +1,60 @@
+import { z } from 'zod'
+
+// Schemas the model's structured responses are validated against. Descriptions are sent to the
+// model along with the schema, so they double as instructions.
+
+export const analysisResponseSchema = z.object({
+  summary: z.string().describe('Brief summary of the analysis'),
+  rootCause: z.string().describe('The primary root cause of the issue'),
+  affectedComponents: z.array(z.string()),
+  confidence: z.number().min(0).max(1).describe('Confidence in the root cause, from 0.0 to 1.0'),
+  reasoning: z.string().describe('How you arrived at this conclusion, including log patterns, timing and system behavior'),
+  immediateActions: z.array(z.string()).describe('Steps to contain or mitigate the incident right now'),
+  preventionMeasures: z.array(z.string()).describe('Changes that keep the incident from happening again'),
+  timeline: z.array(z.object({
+    id: z.string().optional().describe('Draft event id this refines; omit for events missing from the draft'),
+    time: z.string().describe('ISO 8601 time of the event'),
+    kind: z.enum(['anomaly', 'error', 'cascade', 'mitigation', 'recovery', 'note']),
+    title: z.string().describe('Short event title'),
+    description: z.string().optional().describe('What happened and how it relates to the root cause'),
+    component: z.string().optional()
+  }))
+})
+
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>
+
+const suggestedFixSchema = z.object({
+  description: z.string().describe('What needs to be changed'),
+  priority: z.enum(['high', 'medium', 'low']),
+  type: z.enum(['code', 'configuration', 'infrastructure']),
+  code: z.string().optional().describe('Code or configuration to apply'),
+  filePath: z.string().optional().describe('File the fix applies to'),
+  explanation: z.string().describe('Why this fix addresses the root cause')
+})
+
+export const suggestedFixesSchema = z.object({
+  fixes: z.array(suggestedFixSchema)
+})
+
+// Revisions are optional: a follow-up question usually leaves most of the analysis standing
+export const followUpResponseSchema = z.object({
+  newIncident: z.boolean().describe('True when the message describes a different incident instead of following up on the current one'),
+  answer: z.string().describe('Reply to the message, shown in the chat'),
+  rootCause: z.string().optional().describe('Revised root cause; omit when it stands'),
+  affectedComponents: z.array(z.string()).optional().describe('Revised affected components; omit when they stand'),
+  confidence: z.number().min(0).max(1).optional().describe('Revised confidence; omit when it stands'),
+  reasoning: z.string().optional().describe('Revised reasoning; omit when it stands'),
+  immediateActions: z.array(z.string()).optional().describe('Revised immediate actions; omit when they stand'),
+  preventionMeasures: z.array(z.string()).optional().describe('Revised prevention measures; omit when they stand'),
+  fixes: z.array(suggestedFixSchema).describe('Fixes to add to the existing ones; empty when none are needed'),
+  replacedFixIds: z.array(z.string()).describe('Ids of existing fixes that the new fixes replace or that no longer apply')
+})
+
+export type FollowUpResponse = z.infer<typeof followUpResponseSchema>
+
+export const unitTestSchema = z.object({
+  description: z.string(),
+  framework: z.string().describe('jest, mocha, pytest...'),
+  code: z.string().describe('Complete test code'),
+  filePath: z.string().describe('Path of the test file')
+})
@@ -0,0 +1,26 @@
+import { AnalysisStreamEvent } from '@/types'
+
+export const ANALYSIS_STREAM_CONTENT_TYPE = 'application/x-ndjson'
+
+export function encodeAnalysisEvent(event: AnalysisStreamEvent): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+// Reads the events of a streamed /api/analyze response as they arrive
+export async function readAnalysisStream(body: ReadableStream<Uint8Array>, onEvent: (event: AnalysisStreamEvent) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let done = false
+
+  while (!done) {
+    const chunk = await reader.read()
+    done = chunk.done
+    buffer += decoder.decode(chunk.value, { stream: !done })
+
+    // The last line may still be incomplete
+    const lines = buffer.split('\n')
+    buffer = done ? '' : lines.pop() || ''
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line)))
+  }
+}
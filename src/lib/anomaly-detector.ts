@@ -0,0 +1,265 @@
+import { LogAnomaly, LogEntry } from '@/types'
+import { isErrorLevel } from './log-levels'
+
+export interface AnomalyDetectorOptions {
+  // Largest Poisson tail probability still reported as an anomaly
+  significance: number
+  // Windows with fewer errors than this are never flagged
+  minErrors: number
+  // Distinct buckets kept across all series before counts are merged into wider buckets
+  maxBucketKeys: number
+}
+
+export const DEFAULT_ANOMALY_DETECTOR_OPTIONS: AnomalyDetectorOptions = {
+  significance: 0.01,
+  minErrors: 3,
+  maxBucketKeys: 200000
+}
+
+// Each width is a multiple of the previous one, so counts can be merged into the next width
+const BUCKET_WIDTHS_MS = [1, 5, 10, 30, 60, 300, 600, 1800, 3600, 10800, 21600, 43200, 86400].map(seconds => seconds * 1000)
+
+// The bucket width is chosen so a log spans at most MAX_BUCKETS with MIN_ENTRIES_PER_BUCKET on average
+const MAX_BUCKETS = 120
+const MIN_ENTRIES_PER_BUCKET = 2
+
+// Below this many buckets the quiet level is zero errors rather than the lower quartile
+const MIN_BUCKETS_FOR_QUIET_LEVEL = 20
+
+interface ErrorSeries {
+  scope: LogAnomaly['scope']
+  key: string
+  clusterId?: number
+  // Bucket index at the current base width -> errors
+  counts: Map<number, number>
+}
+
+interface ErrorWindow {
+  first: number
+  last: number
+}
+
+export type ClusterDescriber = (clusterId: number) => { fingerprint: string, template: string }
+
+function logFactorial(n: number): number {
+  if (n < 2) return 0
+  if (n < 256) {
+    let sum = 0
+    for (let i = 2; i <= n; i++) sum += Math.log(i)
+    return sum
+  }
+  // Stirling's series
+  return n * Math.log(n) - n + 0.5 * Math.log(2 * Math.PI * n) + 1 / (12 * n)
+}
+
+function poissonUpperTail(observed: number, expected: number): number {
+  // P(X >= observed) for X ~ Poisson(expected); only the upper tail matters, so anything at or below the mean is 1
+  if (observed <= expected) return 1
+  if (expected <= 0) return 0
+
+  let term = Math.exp(observed * Math.log(expected) - expected - logFactorial(observed))
+  let sum = 0
+  for (let k = observed; term > sum * 1e-12 && k < observed + 10000; k++) {
+    sum += term
+    term *= expected / (k + 1)
+  }
+  return Math.min(1, sum)
+}
+
+// Buckets errors over time per source and per error fingerprint and flags windows where the
+// error rate rises significantly above the rest of the log (onsets and spikes) or falls back (recoveries)
+export class ErrorAnomalyDetector {
+  private options: AnomalyDetectorOptions
+  private widthIndex = 0
+  private activity = new Map<number, number>()
+  private series = new Map<string, ErrorSeries>()
+  private bucketKeys = 0
+  private timedEntries = 0
+  private startTime = Infinity
+  private endTime = -Infinity
+
+  constructor(options: Partial<AnomalyDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_ANOMALY_DETECTOR_OPTIONS, ...options }
+  }
+
+  // time is the entry's epoch milliseconds; entries without one can't be placed and are skipped
+  add(entry: LogEntry, time: number, clusterId?: number) {
+    if (isNaN(time)) return
+
+    this.timedEntries++
+    this.startTime = Math.min(this.startTime, time)
+    this.endTime = Math.max(this.endTime, time)
+
+    const bucket = Math.floor(time / BUCKET_WIDTHS_MS[this.widthIndex])
+    this.increment(this.activity, bucket)
+    if (!isErrorLevel(entry.level)) return
+
+    this.increment(this.getSeries('all', '').counts, bucket)
+    if (entry.source) this.increment(this.getSeries('source', entry.source).counts, bucket)
+    if (clusterId !== undefined) {
+      this.increment(this.getSeries('fingerprint', String(clusterId), clusterId).counts, bucket)
+    }
+
+    if (this.bucketKeys > this.options.maxBucketKeys && this.widthIndex < BUCKET_WIDTHS_MS.length - 1) {
+      this.coarsen()
+    }
+  }
+
+  detect(describeCluster: ClusterDescriber): LogAnomaly[] {
+    if (this.timedEntries === 0) return []
+
+    const width = this.chooseBucketWidth()
+    const firstBucket = Math.floor(this.startTime / width)
+    const bucketCount = Math.floor(this.endTime / width) - firstBucket + 1
+    const toArray = (counts: Map<number, number>) => {
+      const values = new Array<number>(bucketCount).fill(0)
+      const baseWidth = BUCKET_WIDTHS_MS[this.widthIndex]
+      counts.forEach((count, bucket) => {
+        values[Math.floor(bucket * baseWidth / width) - firstBucket] += count
+      })
+      return values
+    }
+
+    const activity = toArray(this.activity)
+    const sourceCount = Array.from(this.series.values()).filter(series => series.scope === 'source').length
+    const anomalies: LogAnomaly[] = []
+
+    this.series.forEach(series => {
+      // With a single source the overall series says the same thing as the per-source one
+      if (series.scope === 'all' && sourceCount <= 1) return
+
+      const cluster = series.clusterId !== undefined ? describeCluster(series.clusterId) : undefined
+      const key = cluster ? cluster.fingerprint : series.key
+      const label = cluster ? cluster.template : series.scope === 'all' ? 'All errors' : series.key
+      const bucketTime = (bucket: number) => new Date((firstBucket + bucket) * width).toISOString()
+
+      this.detectSeries(toArray(series.counts), activity).forEach(anomaly => {
+        anomalies.push({
+          kind: anomaly.kind,
+          scope: series.scope,
+          key,
+          label,
+          start: bucketTime(anomaly.first),
+          end: bucketTime(anomaly.last + 1),
+          errorCount: anomaly.errorCount,
+          expectedCount: Math.round(anomaly.expectedCount * 100) / 100,
+          pValue: anomaly.pValue
+        })
+      })
+    })
+
+    return anomalies.sort((a, b) => a.start.localeCompare(b.start) || (a.pValue ?? 1) - (b.pValue ?? 1))
+  }
+
+  private detectSeries(errors: number[], activity: number[]) {
+    const flagged: (ErrorWindow & Pick<LogAnomaly, 'kind' | 'errorCount' | 'expectedCount' | 'pValue'>)[] = []
+    const total = errors.reduce((sum, count) => sum + count, 0)
+    if (total < this.options.minErrors) return flagged
+
+    const sorted = [...errors].sort((a, b) => a - b)
+    const quietLevel = errors.length >= MIN_BUCKETS_FOR_QUIET_LEVEL ? sorted[Math.floor(errors.length / 4)] : 0
+
+    for (const { first, last } of this.findElevatedWindows(errors, quietLevel)) {
+      // Errors throughout the log leave nothing to compare the window against
+      if (first === 0 && last === errors.length - 1) continue
+
+      const length = last - first + 1
+      const observed = errors.slice(first, last + 1).reduce((sum, count) => sum + count, 0)
+      if (observed < this.options.minErrors) continue
+
+      // Half an error of prior keeps an error-free remainder from making every window infinitely unlikely
+      const outsideRate = (total - observed + 0.5) / (errors.length - length + 1)
+      const pValue = poissonUpperTail(observed, outsideRate * length)
+      if (pValue >= this.options.significance) continue
+
+      flagged.push({ kind: 'onset', first, last, errorCount: observed, expectedCount: outsideRate * length, pValue })
+
+      // Spikes stand out from the rest of the window they occur in
+      if (length >= 3) {
+        for (let bucket = first; bucket <= last; bucket++) {
+          const count = errors[bucket]
+          const restRate = (observed - count + 0.5) / length
+          const spikeValue = poissonUpperTail(count, restRate)
+          if (count >= this.options.minErrors && spikeValue < this.options.significance) {
+            flagged.push({ kind: 'spike', first: bucket, last: bucket, errorCount: count, expectedCount: restRate, pValue: spikeValue })
+          }
+        }
+      }
+
+      // Recovery is the first bucket after the window that still has log activity but is back to the quiet level
+      for (let bucket = last + 1; bucket < errors.length && errors[bucket] <= quietLevel; bucket++) {
+        if (activity[bucket] > 0) {
+          flagged.push({ kind: 'recovery', first: bucket, last: bucket, errorCount: errors[bucket], expectedCount: observed / length })
+          break
+        }
+      }
+    }
+
+    return flagged
+  }
+
+  private findElevatedWindows(errors: number[], quietLevel: number): ErrorWindow[] {
+    // Runs of buckets above the quiet level; a single quiet bucket doesn't end a run
+    const windows: ErrorWindow[] = []
+    let current: ErrorWindow | undefined
+
+    errors.forEach((count, bucket) => {
+      if (count <= quietLevel) return
+      if (current && bucket - current.last <= 2) {
+        current.last = bucket
+      } else {
+        current = { first: bucket, last: bucket }
+        windows.push(current)
+      }
+    })
+
+    return windows
+  }
+
+  private chooseBucketWidth(): number {
+    const span = this.endTime - this.startTime + 1
+    const minimum = Math.max(
+      BUCKET_WIDTHS_MS[this.widthIndex],
+      span / MAX_BUCKETS,
+      span * MIN_ENTRIES_PER_BUCKET / this.timedEntries
+    )
+    return BUCKET_WIDTHS_MS.find(width => width >= minimum) || BUCKET_WIDTHS_MS[BUCKET_WIDTHS_MS.length - 1]
+  }
+
+  private getSeries(scope: ErrorSeries['scope'], key: string, clusterId?: number): ErrorSeries {
+    const id = `${scope}:${key}`
+    let series = this.series.get(id)
+    if (!series) {
+      series = { scope, key, clusterId, counts: new Map() }
+      this.series.set(id, series)
+    }
+    return series
+  }
+
+  private increment(counts: Map<number, number>, bucket: number) {
+    const count = counts.get(bucket)
+    if (count === undefined) this.bucketKeys++
+    counts.set(bucket, (count || 0) + 1)
+  }
+
+  private coarsen() {
+    const factor = BUCKET_WIDTHS_MS[this.widthIndex + 1] / BUCKET_WIDTHS_MS[this.widthIndex]
+    this.widthIndex++
+    this.bucketKeys = 0
+
+    const merge = (counts: Map<number, number>) => {
+      const merged = new Map<number, number>()
+      counts.forEach((count, bucket) => {
+        const wider = Math.floor(bucket / factor)
+        merged.set(wider, (merged.get(wider) || 0) + count)
+      })
+      this.bucketKeys += merged.size
+      return merged
+    }
+
+    this.activity = merge(this.activity)
+    this.series.forEach(series => {
+      series.counts = merge(series.counts)
+    })
+  }
+}
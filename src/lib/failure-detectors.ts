@@ -0,0 +1,217 @@
+import { DetectorFinding, DetectorRule, LogEntry, LogLevel } from '@/types'
+
+// Built-in rules only look at lines that report a problem
+const PROBLEM_LEVELS: LogLevel[] = ['fatal', 'error', 'warn']
+
+const SEVERITY_ORDER: DetectorRule['severity'][] = ['critical', 'high', 'medium', 'low']
+
+const MAX_EVIDENCE_ENTRIES = 5
+const MAX_FINDING_SOURCES = 10
+
+export const BUILT_IN_DETECTOR_RULES: DetectorRule[] = [
+  {
+    id: 'oom-kill',
+    title: 'Process ran out of memory',
+    category: 'memory',
+    severity: 'critical',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'Out of memory: Kill(ed)? process',
+      'oom[-_ ]?kill(er|ed)?',
+      'java\\.lang\\.OutOfMemoryError',
+      'JavaScript heap out of memory',
+      '\\bMemoryError\\b',
+      'runtime: out of memory',
+      'Cannot allocate memory',
+      'exit(ed)? (with )?code 137'
+    ],
+    remediation: 'Raise the container memory limit or the heap size (-Xmx, --max-old-space-size) to cover the peak, then look for what grew before the kill: unbounded caches, large result sets loaded into memory or leaked objects.'
+  },
+  {
+    id: 'connection-pool-exhausted',
+    title: 'Connection pool exhausted',
+    category: 'database',
+    severity: 'high',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'pool (is )?(exhausted|full)',
+      'Connection is not available, request timed out after',
+      'Timeout waiting for idle object',
+      'Cannot get a connection, pool error',
+      'QueuePool limit of size \\d+ overflow \\d+ reached',
+      'remaining connection slots are reserved',
+      'too many (clients|connections)',
+      'unable to acquire (a )?(jdbc )?connection'
+    ],
+    remediation: 'Look for connections that are never returned to the pool (missing release in error paths, long-running transactions), size the pool against the database\'s max_connections across every instance, and set an acquire timeout shorter than the request timeout.'
+  },
+  {
+    id: 'dns-resolution-failure',
+    title: 'DNS resolution failed',
+    category: 'network',
+    severity: 'high',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'getaddrinfo (ENOTFOUND|EAI_AGAIN)',
+      'UnknownHostException',
+      'Name or service not known',
+      'Temporary failure in name resolution',
+      'no such host',
+      'could not resolve host',
+      'NXDOMAIN'
+    ],
+    remediation: 'Resolve the hostname from inside the failing environment (nslookup, dig) to confirm the record exists, check the resolver configuration (/etc/resolv.conf, CoreDNS health, ndots), and retry transient EAI_AGAIN failures.'
+  },
+  {
+    id: 'tls-certificate-expired',
+    title: 'TLS certificate expired or not trusted',
+    category: 'tls',
+    severity: 'critical',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'certificate (has )?expired',
+      'CERT_HAS_EXPIRED',
+      'certificate is not yet valid',
+      'certificate verify failed',
+      'PKIX path (building|validation) failed',
+      'unable to verify the first certificate',
+      'self[- ]signed certificate in certificate chain'
+    ],
+    remediation: 'Inspect the remote certificate chain and its expiry (openssl s_client -connect host:443 -showcerts), renew or rotate the certificate together with its intermediates, make sure the client trust store has the issuing CA, and alert on upcoming expiry.'
+  },
+  {
+    id: 'disk-full',
+    title: 'Disk full',
+    category: 'disk',
+    severity: 'critical',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'No space left on device',
+      'ENOSPC',
+      'disk (is )?full',
+      'Disk quota exceeded',
+      'could not extend file',
+      'insufficient disk space'
+    ],
+    remediation: 'Free space on the affected volume (df -h, du -sh) by rotating and compressing logs and removing temporary files and old artifacts, then grow the volume and alert on usage before it fills again.'
+  },
+  {
+    id: 'deadlock',
+    title: 'Deadlock',
+    category: 'concurrency',
+    severity: 'high',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'deadlock detected',
+      'Deadlock found when trying to get lock',
+      'was deadlocked on lock',
+      'ER_LOCK_DEADLOCK',
+      'Lock wait timeout exceeded',
+      'all goroutines are asleep - deadlock',
+      'SQLSTATE\\W*40P01'
+    ],
+    remediation: 'Take locks in the same order in every transaction, keep transactions short, index the columns updates filter on so fewer rows are locked, and retry transactions that fail with a deadlock error.'
+  },
+  {
+    id: 'rate-limited',
+    title: 'Rate limited',
+    category: 'rate-limit',
+    severity: 'medium',
+    levels: PROBLEM_LEVELS,
+    patterns: [
+      'Too Many Requests',
+      'rate.?limit(ed| exceeded| reached)',
+      'ThrottlingException',
+      'throttled',
+      'quota exceeded'
+    ],
+    contextPatterns: { status: '^429$' },
+    remediation: 'Retry with exponential backoff and jitter, honouring Retry-After, cut the request volume with caching or batching, and ask for a higher quota if the limit is reached during normal traffic.'
+  }
+]
+
+interface CompiledRule {
+  rule: DetectorRule
+  patterns: RegExp[]
+  contextPatterns: [string, RegExp][]
+}
+
+interface FindingAccumulator {
+  matchCount: number
+  firstSeen?: string
+  lastSeen?: string
+  sources: Set<string>
+  evidence: LogEntry[]
+}
+
+function compileRule(rule: DetectorRule): CompiledRule {
+  try {
+    return {
+      rule,
+      patterns: rule.patterns.map(pattern => new RegExp(pattern, 'i')),
+      contextPatterns: Object.entries(rule.contextPatterns || {}).map(([field, pattern]) => [field, new RegExp(pattern, 'i')])
+    }
+  } catch (error) {
+    throw new Error(`Invalid detector rule ${rule.id}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+// Runs declarative rules for well-known failures (OOM kills, pool exhaustion, DNS and TLS errors,
+// full disks, deadlocks, rate limiting) over every parsed entry. Findings need no AI provider.
+export class FailureDetector {
+  private rules: CompiledRule[] = []
+  private findings = new Map<string, FindingAccumulator>()
+
+  constructor(rules: DetectorRule[] = BUILT_IN_DETECTOR_RULES) {
+    rules.forEach(rule => {
+      try {
+        this.rules.push(compileRule(rule))
+      } catch (error) {
+        console.error(`Skipping detector rule ${rule.id}:`, error)
+      }
+    })
+  }
+
+  add(entry: LogEntry) {
+    const text = entry.stackTrace ? `${entry.message}\n${entry.stackTrace}` : entry.message
+
+    this.rules.forEach(({ rule, patterns, contextPatterns }) => {
+      if (rule.levels && !rule.levels.includes(entry.level)) return
+      const matched = patterns.some(pattern => pattern.test(text)) ||
+        contextPatterns.some(([field, pattern]) => entry.context?.[field] !== undefined && pattern.test(String(entry.context[field])))
+      if (!matched) return
+
+      const finding = this.findings.get(rule.id) || { matchCount: 0, sources: new Set<string>(), evidence: [] }
+      finding.matchCount++
+      if (entry.timestamp) {
+        if (!finding.firstSeen || entry.timestamp < finding.firstSeen) finding.firstSeen = entry.timestamp
+        if (!finding.lastSeen || entry.timestamp > finding.lastSeen) finding.lastSeen = entry.timestamp
+      }
+      if (entry.source && finding.sources.size < MAX_FINDING_SOURCES) finding.sources.add(entry.source)
+      if (finding.evidence.length < MAX_EVIDENCE_ENTRIES) finding.evidence.push(entry)
+      this.findings.set(rule.id, finding)
+    })
+  }
+
+  // Most severe first, then by how often the rule matched
+  getFindings(): DetectorFinding[] {
+    return this.rules
+      .filter(({ rule }) => (this.findings.get(rule.id)?.matchCount || 0) >= (rule.minMatches || 1))
+      .map(({ rule }) => {
+        const finding = this.findings.get(rule.id) as FindingAccumulator
+        return {
+          ruleId: rule.id,
+          title: rule.title,
+          category: rule.category,
+          severity: rule.severity,
+          remediation: rule.remediation,
+          matchCount: finding.matchCount,
+          firstSeen: finding.firstSeen,
+          lastSeen: finding.lastSeen,
+          sources: Array.from(finding.sources),
+          evidence: finding.evidence
+        }
+      })
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.matchCount - a.matchCount)
+  }
+}
@@ -0,0 +1,139 @@
+import { LogEntry, ParsedLog, TimelineEvent } from '@/types'
+import { AnalysisResponse } from './analysis-schemas'
+import { isErrorLevel } from './log-levels'
+import { normalizeTimestamp } from './timestamps'
+
+const MAX_TIMELINE_EVENTS = 40
+const MAX_EVENT_ENTRIES = 3
+
+const KIND_ORDER: TimelineEvent['kind'][] = ['anomaly', 'error', 'cascade', 'mitigation', 'recovery', 'note']
+
+// Knock-on failures: resources running out and protective mechanisms tripping
+const CASCADE_PATTERN = /pool (is )?exhausted|exhausted|circuit breaker (opened|open|tripped)|queue (is )?full|backpressure|rate.?limit(ed)?|throttl\w*|out of memory|\boom\b|degraded|overload(ed)?|too many (connections|requests|open files)|no space left|disk (is )?full/i
+
+// Checked before mitigation, and like mitigation only on non-error lines
+const RECOVERY_PATTERN = /restored|recovered|resumed|back to normal|healthy again|established|reconnected|circuit breaker (closed|reset)|succeeded after/i
+
+const MITIGATION_PATTERN = /fail.?over|fall(ing)?.?back|retrying|reconnect(ion|ing)?|restart(ing|ed)?|roll(ing|ed)?.?back|scal(ing|ed) (up|out)|half.?open|draining|shedding load/i
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function classifyEntry(entry: LogEntry): { kind: TimelineEvent['kind'], phrase: string } | null {
+  const cascade = entry.message.match(CASCADE_PATTERN)
+  if (cascade) return { kind: 'cascade', phrase: cascade[0].toLowerCase() }
+  if (isErrorLevel(entry.level)) return null
+
+  const recovery = entry.message.match(RECOVERY_PATTERN)
+  if (recovery) return { kind: 'recovery', phrase: recovery[0].toLowerCase() }
+  const mitigation = entry.message.match(MITIGATION_PATTERN)
+  if (mitigation) return { kind: 'mitigation', phrase: mitigation[0].toLowerCase() }
+  return null
+}
+
+function sortTimeline(events: TimelineEvent[]): TimelineEvent[] {
+  return events.sort((a, b) =>
+    a.time.localeCompare(b.time) || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+  )
+}
+
+// Drafts a timeline from the parsed logs: anomaly windows, the first error of each component,
+// cascade events, mitigations and recoveries. Events keep references to the lines they came from.
+export function buildIncidentTimeline(logs: ParsedLog): TimelineEvent[] {
+  const events = new Map<string, TimelineEvent>()
+  const addEvent = (key: string, event: Omit<TimelineEvent, 'id' | 'entries' | 'occurrences' | 'origin'>, entry?: LogEntry) => {
+    let existing = events.get(key)
+    if (!existing) {
+      existing = { ...event, id: `evt-${events.size + 1}`, entries: [], occurrences: 0, origin: 'logs' }
+      events.set(key, existing)
+    }
+    existing.occurrences++
+    if (entry && existing.entries.length < MAX_EVENT_ENTRIES) existing.entries.push(entry)
+    return existing
+  }
+
+  logs.anomalies
+    .filter(anomaly => anomaly.scope !== 'fingerprint')
+    .forEach(anomaly => {
+      const inWindow = logs.entries.filter(entry =>
+        entry.timestamp >= anomaly.start && entry.timestamp < anomaly.end &&
+        (anomaly.scope === 'all' || entry.source === anomaly.label)
+      )
+      const linked = anomaly.kind === 'recovery' ? inWindow : inWindow.filter(entry => isErrorLevel(entry.level))
+      const event = addEvent(`anomaly:${anomaly.kind}:${anomaly.key}:${anomaly.start}`, {
+        time: anomaly.start,
+        kind: anomaly.kind === 'recovery' ? 'recovery' : 'anomaly',
+        title: anomaly.kind === 'recovery'
+          ? `Error rate back to normal in ${anomaly.label}`
+          : `Error ${anomaly.kind} in ${anomaly.scope === 'all' ? 'all sources' : anomaly.label}: ${anomaly.errorCount} errors (expected ${anomaly.expectedCount})`,
+        component: anomaly.scope === 'all' ? undefined : anomaly.label
+      })
+      event.entries = linked.slice(0, MAX_EVENT_ENTRIES)
+    })
+
+  // Entries arrive in time order, so the first match per key is the earliest occurrence
+  logs.entries
+    .filter(entry => entry.timestamp)
+    .forEach(entry => {
+      const component = entry.source
+      if (isErrorLevel(entry.level)) {
+        addEvent(`error:${component}`, {
+          time: entry.timestamp,
+          kind: 'error',
+          title: `First error in ${component || 'logs'}: ${entry.message}`,
+          component
+        }, entry)
+      }
+
+      const classified = classifyEntry(entry)
+      if (classified) {
+        addEvent(`${classified.kind}:${component}:${classified.phrase}`, {
+          time: entry.timestamp,
+          kind: classified.kind,
+          title: capitalize(entry.message),
+          component
+        }, entry)
+      }
+    })
+
+  return sortTimeline(Array.from(events.values())).slice(0, MAX_TIMELINE_EVENTS)
+}
+
+// Folds the model's reading of the incident into the drafted timeline. Events the model refers to by id
+// take its title and description; new events are linked to log lines with the same timestamp.
+export function mergeIncidentTimeline(draft: TimelineEvent[], interpreted: AnalysisResponse['timeline'] | undefined, logs?: ParsedLog | null): TimelineEvent[] {
+  const events = draft.map(event => ({ ...event }))
+
+  interpreted?.forEach((item, index) => {
+    const existing = item.id ? events.find(event => event.id === item.id) : undefined
+    if (existing) {
+      existing.title = item.title || existing.title
+      existing.description = item.description || existing.description
+      existing.origin = 'both'
+      return
+    }
+
+    const time = normalizeTimestamp(item.time)
+    if (!time || !item.title) return
+
+    const second = time.slice(0, 19)
+    const entries = (logs?.entries || [])
+      .filter(entry => entry.timestamp.startsWith(second))
+      .slice(0, MAX_EVENT_ENTRIES)
+
+    events.push({
+      id: `evt-model-${index + 1}`,
+      time,
+      kind: item.kind,
+      title: item.title,
+      description: item.description,
+      component: item.component,
+      entries,
+      occurrences: entries.length,
+      origin: 'model'
+    })
+  })
+
+  return sortTimeline(events)
+}
@@ -0,0 +1,277 @@
+import { InvestigationToolCall, InvestigationToolName, LogLevel, ParsedLog } from '@/types'
+import { tool, ToolSet } from 'ai'
+import { z } from 'zod'
+import { MCPManager } from './mcp-manager'
+import { Redactor, restoreRedactedText } from './redactor'
+import { formatEntry } from './log-context-builder'
+import { getLogLevelRank, LOG_LEVELS } from './log-levels'
+
+// Tool calls allowed across the whole investigation, on top of the step limit: one step may call several tools
+const MAX_TOOL_CALLS = 24
+
+// Tool output the model sees, per call
+const MAX_TOOL_OUTPUT_CHARS = 6000
+const MAX_READ_LINES = 200
+const MAX_SEARCH_RESULTS = 20
+const MAX_LISTED_FILES = 200
+const MAX_LOG_RESULTS = 50
+const MAX_PATTERN_RESULTS = 30
+
+interface RecordedCall {
+  call: InvestigationToolCall
+  output: string
+}
+
+interface ToolOutput {
+  output: string
+  summary: string
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}\n... truncated` : text
+}
+
+// Code and log tools the model calls while investigating an incident. Code tools read from the connected
+// MCP servers, log tools query the parsed logs. Everything returned to the model is redacted, and
+// pseudonyms in the model's arguments are mapped back so they match the original logs.
+export class InvestigationToolkit {
+  private calls: RecordedCall[] = []
+  private step = 1
+  private files = new Set<string>()
+  private serversUsed = new Set<string>()
+
+  constructor(
+    private mcpManager: MCPManager,
+    private logs: ParsedLog | null | undefined,
+    private redactor: Redactor,
+    private onToolCall?: (call: InvestigationToolCall) => void
+  ) {}
+
+  nextStep() {
+    this.step++
+  }
+
+  getToolCalls(): InvestigationToolCall[] {
+    return this.calls.map(({ call }) => call)
+  }
+
+  // Files the model read or found by searching, in the order it came across them
+  getFiles(): string[] {
+    return Array.from(this.files)
+  }
+
+  getServersUsed(): string[] {
+    return Array.from(this.serversUsed)
+  }
+
+  // Every call with its output, for the analysis prompt that follows the investigation
+  getTranscript(maxOutputChars: number): string {
+    return this.calls
+      .map(({ call, output }) => `${call.tool}(${JSON.stringify(call.input)}):\n${truncate(output, maxOutputChars)}`)
+      .join('\n\n')
+  }
+
+  getTools(): ToolSet {
+    const tools: ToolSet = {}
+
+    if (this.mcpManager.getConnectedServers().length > 0) {
+      tools.searchCode = tool({
+        description: 'Search the source code of the connected repositories. Returns matching files with the matching line.',
+        parameters: z.object({
+          query: z.string().describe('Identifier, error message or other text to search for'),
+          serverId: z.string().optional().describe('Only search this server')
+        }),
+        execute: input => this.record('searchCode', input, () => this.searchCode(input.query, input.serverId))
+      })
+      tools.readFile = tool({
+        description: `Read a file from a connected repository, with line numbers. Returns at most ${MAX_READ_LINES} lines per call.`,
+        parameters: z.object({
+          path: z.string().describe('Path of the file in the repository'),
+          startLine: z.number().int().min(1).optional(),
+          endLine: z.number().int().min(1).optional(),
+          serverId: z.string().optional().describe('Server to read from; every connected server is tried when omitted')
+        }),
+        execute: input => this.record('readFile', input, () => this.readFile(input.path, input.startLine, input.endLine, input.serverId))
+      })
+      tools.listFiles = tool({
+        description: 'List the files and directories at a path of the connected repositories.',
+        parameters: z.object({
+          path: z.string().optional().describe('Directory to list; the repository root when omitted'),
+          serverId: z.string().optional().describe('Only list this server')
+        }),
+        execute: input => this.record('listFiles', input, () => this.listFiles(input.path, input.serverId))
+      })
+    }
+
+    const logs = this.logs
+    if (logs && logs.entries.length > 0) {
+      tools.queryLogs = tool({
+        description: `Find log entries, oldest first. Returns at most ${MAX_LOG_RESULTS} entries; the total number of matches is reported.`,
+        parameters: z.object({
+          contains: z.string().optional().describe('Text the message, context or stack trace contains, case-insensitive'),
+          level: z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]).optional().describe('Only entries at this level or more severe'),
+          source: z.string().optional().describe('Only entries from this source'),
+          from: z.string().optional().describe('ISO 8601 time of the earliest entry'),
+          to: z.string().optional().describe('ISO 8601 time of the latest entry'),
+          limit: z.number().int().min(1).max(MAX_LOG_RESULTS).optional()
+        }),
+        execute: input => this.record('queryLogs', input, async () => this.queryLogs(logs, input))
+      })
+      tools.listErrorPatterns = tool({
+        description: 'List the message templates mined from the logs, most severe first, with counts, sources and first and last occurrence.',
+        parameters: z.object({
+          contains: z.string().optional().describe('Only templates containing this text, case-insensitive')
+        }),
+        execute: input => this.record('listErrorPatterns', input, async () => this.listErrorPatterns(logs, input.contains))
+      })
+      tools.getRequestChain = tool({
+        description: 'Get the entries linked by a trace, request or span id across all log files, in time order.',
+        parameters: z.object({
+          id: z.string().describe('Trace, request, span or user id')
+        }),
+        execute: input => this.record('getRequestChain', input, async () => this.getRequestChain(logs, input.id))
+      })
+    }
+
+    return tools
+  }
+
+  // Runs a tool, keeps the call for the trace and returns the redacted output. Failures are returned to the
+  // model as text so it can try something else.
+  private async record(name: InvestigationToolName, input: Record<string, unknown>, run: () => Promise<ToolOutput>): Promise<string> {
+    let result: ToolOutput
+    let failed = false
+    if (this.calls.length >= MAX_TOOL_CALLS) {
+      result = { output: `Tool call limit of ${MAX_TOOL_CALLS} reached. Finish the investigation with what you have.`, summary: 'call limit reached' }
+      failed = true
+    } else {
+      try {
+        result = await run()
+      } catch (error) {
+        console.error(`Investigation tool ${name} failed:`, error)
+        const message = error instanceof Error ? error.message : String(error)
+        result = { output: `Error: ${message}`, summary: message }
+        failed = true
+      }
+    }
+
+    const output = truncate(this.redactor.redact(result.output), MAX_TOOL_OUTPUT_CHARS)
+    const call: InvestigationToolCall = {
+      step: this.step,
+      tool: name,
+      input,
+      summary: this.redactor.redact(result.summary)
+    }
+    if (failed) call.failed = true
+    this.calls.push({ call, output })
+    this.onToolCall?.(call)
+    return output
+  }
+
+  // The model only ever saw pseudonyms, the logs and code hold the real values
+  private restore(text: string): string {
+    return restoreRedactedText(text, this.redactor.getReport().mapping)
+  }
+
+  private getServers(serverId?: string) {
+    const servers = this.mcpManager.getConnectedServers()
+    return serverId ? servers.filter(server => server.id === serverId) : servers
+  }
+
+  private async searchCode(query: string, serverId?: string): Promise<ToolOutput> {
+    const lines: string[] = []
+    for (const server of this.getServers(serverId)) {
+      const results = await this.mcpManager.searchCode(this.restore(query), server.id)
+      this.serversUsed.add(server.name)
+      results.forEach(result => {
+        if (lines.length >= MAX_SEARCH_RESULTS) return
+        this.files.add(result.path)
+        lines.push(`${server.id}:${result.path}${result.line ? `:${result.line}` : ''}: ${truncate(result.content.trim(), 200)}`)
+      })
+    }
+    return { output: lines.join('\n') || 'No matches', summary: `${lines.length} result(s)` }
+  }
+
+  private async readFile(path: string, startLine = 1, endLine?: number, serverId?: string): Promise<ToolOutput> {
+    const errors: string[] = []
+    for (const server of this.getServers(serverId)) {
+      try {
+        const lines = (await this.mcpManager.getFileContent(this.restore(path), server.id)).split('\n')
+        this.serversUsed.add(server.name)
+        this.files.add(path)
+
+        const last = Math.min(lines.length, endLine || lines.length, startLine + MAX_READ_LINES - 1)
+        const width = String(last).length
+        const code = lines
+          .slice(startLine - 1, last)
+          .map((line, index) => `${String(startLine + index).padStart(width)} | ${line}`)
+          .join('\n')
+        return {
+          output: `${server.id}:${path} (lines ${startLine}-${last} of ${lines.length})\n${code}`,
+          summary: `lines ${startLine}-${last} of ${lines.length}`
+        }
+      } catch (error) {
+        errors.push(`${server.name}: ${error instanceof Error ? error.message : error}`)
+      }
+    }
+    throw new Error(errors.length > 0 ? `Could not read ${path} (${errors.join('; ')})` : `No connected server ${serverId}`)
+  }
+
+  private async listFiles(path?: string, serverId?: string): Promise<ToolOutput> {
+    const sections: string[] = []
+    let count = 0
+    for (const server of this.getServers(serverId)) {
+      const files = await this.mcpManager.listFiles(server.id, path && this.restore(path))
+      this.serversUsed.add(server.name)
+      count += files.length
+      sections.push(`${server.id}:\n${files.slice(0, MAX_LISTED_FILES).join('\n')}${files.length > MAX_LISTED_FILES ? `\n... ${files.length - MAX_LISTED_FILES} more` : ''}`)
+    }
+    return { output: sections.join('\n\n'), summary: `${count} entries` }
+  }
+
+  private queryLogs(logs: ParsedLog, query: { contains?: string, level?: LogLevel, source?: string, from?: string, to?: string, limit?: number }): ToolOutput {
+    const contains = query.contains && this.restore(query.contains).toLowerCase()
+    const from = query.from && new Date(query.from).toISOString()
+    const to = query.to && new Date(query.to).toISOString()
+
+    const matches = logs.entries.filter(entry => {
+      if (query.level && getLogLevelRank(entry.level) > getLogLevelRank(query.level)) return false
+      if (query.source && entry.source !== this.restore(query.source)) return false
+      if (from && (!entry.timestamp || entry.timestamp < from)) return false
+      if (to && (!entry.timestamp || entry.timestamp > to)) return false
+      if (contains) {
+        const text = `${entry.message}\n${entry.context ? JSON.stringify(entry.context) : ''}\n${entry.stackTrace || ''}`
+        if (!text.toLowerCase().includes(contains)) return false
+      }
+      return true
+    })
+
+    const shown = matches.slice(0, query.limit || 20)
+    const sampled = logs.sampling ? ` Only ${logs.sampling.retainedEntries} of ${logs.totalEntries} entries were kept when parsing, so counts may be low.` : ''
+    return {
+      output: `${matches.length} matching entries, showing ${shown.length}.${sampled}\n${shown.map(formatEntry).join('\n')}`,
+      summary: `${matches.length} matching entries`
+    }
+  }
+
+  private listErrorPatterns(logs: ParsedLog, contains?: string): ToolOutput {
+    const filter = contains && this.restore(contains).toLowerCase()
+    const clusters = logs.clusters.filter(cluster => !filter || cluster.template.toLowerCase().includes(filter))
+    const lines = clusters
+      .slice(0, MAX_PATTERN_RESULTS)
+      .map(cluster => `[${cluster.level.toUpperCase()}] ${cluster.template} (x${cluster.count}, ${cluster.errorCount} errors, ${cluster.sources.join(', ') || 'unknown source'}, ${cluster.firstSeen || '?'} to ${cluster.lastSeen || '?'})`)
+    return { output: lines.join('\n') || 'No matching templates', summary: `${clusters.length} template(s)` }
+  }
+
+  private getRequestChain(logs: ParsedLog, id: string): ToolOutput {
+    const value = this.restore(id)
+    const chain = logs.requestChains.find(candidate => candidate.ids.some(correlationId => correlationId.value === value))
+    if (!chain) return { output: `No request chain with id ${id}`, summary: 'not found' }
+
+    const ids = chain.ids.map(correlationId => `${correlationId.kind}=${correlationId.value}`).join(', ')
+    return {
+      output: `${ids}: ${chain.entryCount} entries, ${chain.errorCount} errors across ${chain.sources.join(', ')}${chain.durationMs !== undefined ? ` over ${chain.durationMs}ms` : ''}\n${chain.entries.map(formatEntry).join('\n')}`,
+      summary: `${chain.entryCount} entries, ${chain.errorCount} errors`
+    }
+  }
+}
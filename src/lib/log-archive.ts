@@ -0,0 +1,229 @@
+import { createWriteStream } from 'fs'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { pipeline, Readable, Transform } from 'stream'
+import { pipeline as pipelineAsync } from 'stream/promises'
+import { createGunzip } from 'zlib'
+import tar from 'tar-stream'
+import yauzl from 'yauzl'
+import { getArchiveType, isLogFileName } from './log-files'
+
+export interface ArchiveLimits {
+  // Decompressed bytes across everything extracted from one upload
+  maxTotalBytes: number
+  // Members read from archives across one upload
+  maxEntries: number
+  // Decompressed/compressed ratio tolerated once output exceeds ratioCheckThreshold bytes
+  maxCompressionRatio: number
+  ratioCheckThreshold: number
+  // Archives nested inside archives (e.g. a .gz inside a .zip)
+  maxDepth: number
+  // Bytes of a zip written to disk before it is read
+  maxSpoolBytes: number
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxTotalBytes: 10 * 1024 * 1024 * 1024,
+  maxEntries: 10000,
+  maxCompressionRatio: 200,
+  ratioCheckThreshold: 16 * 1024 * 1024,
+  maxDepth: 3,
+  maxSpoolBytes: 2 * 1024 * 1024 * 1024
+}
+
+export class ArchiveLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArchiveLimitError'
+  }
+}
+
+export interface ExtractedLog {
+  // Upload name followed by the member path, e.g. bundle.zip/var/log/app.log.1
+  path: string
+  stream: Readable
+}
+
+type ExtractedLogHandler = (log: ExtractedLog) => Promise<void>
+
+export class LogArchiveExtractor {
+  private totalBytes = 0
+  private entryCount = 0
+
+  constructor(private limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS) {}
+
+  async extract(fileName: string, stream: Readable, onLog: ExtractedLogHandler, depth = 0): Promise<void> {
+    const archiveType = getArchiveType(fileName)
+    if (!archiveType) {
+      await onLog({ path: fileName, stream })
+      return
+    }
+
+    if (depth >= this.limits.maxDepth) {
+      throw new ArchiveLimitError(`${fileName} is nested more than ${this.limits.maxDepth} archives deep`)
+    }
+
+    switch (archiveType) {
+      case 'gzip':
+        await this.extract(fileName.replace(/\.gz$/i, ''), this.gunzip(fileName, stream), onLog, depth + 1)
+        break
+      case 'tar.gz':
+        await this.extractTar(fileName, this.gunzip(fileName, stream), onLog, depth, true)
+        break
+      case 'tar':
+        await this.extractTar(fileName, stream, onLog, depth, false)
+        break
+      case 'zip':
+        await this.extractZip(fileName, stream, onLog, depth)
+        break
+    }
+  }
+
+  private async extractTar(fileName: string, stream: Readable, onLog: ExtractedLogHandler, depth: number, gzipped: boolean) {
+    const extract = tar.extract()
+    stream.on('error', error => extract.destroy(error))
+    stream.pipe(extract)
+
+    for await (const entry of extract) {
+      const memberName = entry.header.name
+      if (entry.header.type !== 'file' || !this.acceptMember(memberName)) {
+        entry.resume()
+        continue
+      }
+
+      // Output of a gzipped tar was counted toward the total as it was unpacked, members of a plain one are counted here
+      const memberPath = `${fileName}/${memberName}`
+      const memberStream = gzipped ? Readable.from(entry) : this.limitOutput(memberPath, Readable.from(entry), () => entry.header.size || 0)
+      await this.extract(memberPath, memberStream, onLog, depth + 1)
+    }
+  }
+
+  private async extractZip(fileName: string, stream: Readable, onLog: ExtractedLogHandler, depth: number) {
+    // Zip members are located through the central directory at the end of the file, so spool it to disk first
+    const directory = await mkdtemp(path.join(tmpdir(), 'log-archive-'))
+    const zipPath = path.join(directory, 'upload.zip')
+
+    try {
+      await pipelineAsync(stream, this.limitSpool(fileName), createWriteStream(zipPath))
+      const zipFile = await openZip(zipPath)
+
+      try {
+        await new Promise<void>((resolve, reject) => {
+          zipFile.on('entry', (entry: yauzl.Entry) => {
+            this.extractZipEntry(fileName, zipFile, entry, onLog, depth)
+              .then(() => zipFile.readEntry(), reject)
+          })
+          zipFile.on('end', resolve)
+          zipFile.on('error', reject)
+          zipFile.readEntry()
+        })
+      } finally {
+        zipFile.close()
+      }
+    } finally {
+      await rm(directory, { recursive: true, force: true })
+    }
+  }
+
+  private async extractZipEntry(
+    fileName: string,
+    zipFile: yauzl.ZipFile,
+    entry: yauzl.Entry,
+    onLog: ExtractedLogHandler,
+    depth: number
+  ) {
+    if (entry.fileName.endsWith('/') || !this.acceptMember(entry.fileName)) return
+
+    const memberPath = `${fileName}/${entry.fileName}`
+    if (entry.uncompressedSize > this.limits.ratioCheckThreshold &&
+      entry.uncompressedSize > entry.compressedSize * this.limits.maxCompressionRatio) {
+      throw new ArchiveLimitError(`${memberPath} exceeds the maximum compression ratio of ${this.limits.maxCompressionRatio}`)
+    }
+
+    const memberStream = await new Promise<Readable>((resolve, reject) => {
+      zipFile.openReadStream(entry, (error, readStream) => {
+        if (error || !readStream) reject(error || new Error(`Failed to read ${memberPath}`))
+        else resolve(readStream)
+      })
+    })
+
+    await this.extract(memberPath, this.limitOutput(memberPath, memberStream, () => entry.compressedSize), onLog, depth + 1)
+  }
+
+  private acceptMember(memberName: string): boolean {
+    if (!isLogFileName(memberName) && !getArchiveType(memberName)) return false
+
+    this.entryCount++
+    if (this.entryCount > this.limits.maxEntries) {
+      throw new ArchiveLimitError(`Archives may contain at most ${this.limits.maxEntries} log files`)
+    }
+    return true
+  }
+
+  private gunzip(fileName: string, stream: Readable): Readable {
+    let compressedBytes = 0
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        compressedBytes += chunk.length
+        callback(null, chunk)
+      }
+    })
+
+    // pipeline destroys every stream with the error, so consumers of the output see failures
+    const gunzipped = pipeline(stream, counter, createGunzip(), () => {})
+    return this.limitOutput(fileName, gunzipped, () => compressedBytes)
+  }
+
+  // Compressed bytes count toward no other limit, so a zip is capped before it fills the disk
+  private limitSpool(fileName: string): Transform {
+    const maxSpoolBytes = this.limits.maxSpoolBytes
+    let spooledBytes = 0
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        spooledBytes += chunk.length
+        if (spooledBytes > maxSpoolBytes) {
+          callback(new ArchiveLimitError(`${fileName} may not exceed ${maxSpoolBytes} bytes`))
+          return
+        }
+        callback(null, chunk)
+      }
+    })
+  }
+
+  private limitOutput(fileName: string, stream: Readable, getCompressedBytes: () => number): Readable {
+    const limits = this.limits
+    let outputBytes = 0
+    const addBytes = (count: number) => {
+      this.totalBytes += count
+      return this.totalBytes
+    }
+
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        outputBytes += chunk.length
+        if (addBytes(chunk.length) > limits.maxTotalBytes) {
+          callback(new ArchiveLimitError(`Decompressed uploads may not exceed ${limits.maxTotalBytes} bytes`))
+          return
+        }
+        if (outputBytes > limits.ratioCheckThreshold &&
+          outputBytes > getCompressedBytes() * limits.maxCompressionRatio) {
+          callback(new ArchiveLimitError(`${fileName} exceeds the maximum compression ratio of ${limits.maxCompressionRatio}`))
+          return
+        }
+        callback(null, chunk)
+      }
+    })
+
+    return pipeline(stream, limiter, () => {})
+  }
+}
+
+function openZip(zipPath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (error, zipFile) => {
+      if (error || !zipFile) reject(error || new Error(`Failed to open ${zipPath}`))
+      else resolve(zipFile)
+    })
+  })
+}
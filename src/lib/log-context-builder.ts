@@ -0,0 +1,276 @@
+import { LogEntry, LogLevel, ParsedLog, PromptContextReport, StackFrame, TimelineEvent } from '@/types'
+import { isErrorLevel } from './log-levels'
+import { formatStackFrame } from './stack-frames'
+
+// Logs are full of ids, paths and punctuation that tokenize worse than prose, so this errs on the short side
+export const CHARS_PER_TOKEN = 3.5
+
+// Larger windows only add cost and latency; past this much evidence the analysis rarely changes
+export const MAX_LOG_CONTEXT_TOKENS = 50000
+
+// Share of the budget each section may take; the ranked log entries get whatever is left
+const SECTION_SHARES = {
+  findings: 0.05,
+  anomalies: 0.1,
+  clusters: 0.25,
+  timeline: 0.1,
+  chains: 0.15,
+  endpoints: 0.05
+}
+
+const SEVERITY_SCORES: Record<LogLevel, number> = { fatal: 8, error: 6, warn: 3, info: 1, debug: 0, trace: 0 }
+// Full bonus for the best entry of each fingerprint, halved for the second, a third for the third...
+const NOVELTY_BONUS = 4
+const ANOMALY_WINDOW_BONUS = 3
+const STACK_TRACE_BONUS = 2
+
+const MAX_STACK_LINES = 15
+const MAX_CONTEXT_CHARS = 300
+
+interface Section {
+  name: keyof typeof SECTION_SHARES
+  // Plural noun for the items, used in the omission report
+  label: string
+  heading: string
+  separator: string
+  items: string[]
+}
+
+interface PackedSection {
+  text: string
+  tokens: number
+  included: number
+}
+
+export interface LogContext {
+  text: string
+  report: PromptContextReport
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text
+}
+
+// Frames source maps rewrote are shown at their original location, with the minified one alongside
+function formatStack(stackTrace: string, stackFrames?: StackFrame[], indent = ''): string {
+  const lines = stackFrames
+    ? stackFrames.map(frame => `at ${formatStackFrame(frame)}${frame.generated ? ` [minified: ${formatStackFrame(frame.generated)}]` : ''}`)
+    : stackTrace.split('\n')
+  return `${lines.slice(0, MAX_STACK_LINES).join(`\n${indent}`)}${lines.length > MAX_STACK_LINES ? `\n${indent}... ${lines.length - MAX_STACK_LINES} more lines` : ''}`
+}
+
+export function formatEntry(entry: LogEntry): string {
+  let line = `[${entry.timestamp || 'no timestamp'}] ${entry.level.toUpperCase()}${entry.source ? ` (${entry.source})` : ''}: ${entry.message}`
+  if (entry.context && Object.keys(entry.context).length > 0) {
+    line += `\n  Context: ${truncate(JSON.stringify(entry.context), MAX_CONTEXT_CHARS)}`
+  }
+  if (entry.stackTrace) {
+    line += `\n  Stack: ${formatStack(entry.stackTrace, entry.stackFrames, '  ')}`
+  }
+  return line
+}
+
+// Takes items in order while they fit; a section whose heading and first item don't fit is left out
+function packSection(section: Section, budget: number): PackedSection {
+  let tokens = estimateTokens(`${section.heading}\n\n`)
+  const included: string[] = []
+  for (const item of section.items) {
+    const itemTokens = estimateTokens(item + section.separator)
+    if (tokens + itemTokens > budget) break
+    tokens += itemTokens
+    included.push(item)
+  }
+
+  if (included.length === 0) return { text: '', tokens: 0, included: 0 }
+  return { text: `${section.heading}\n${included.join(section.separator)}\n\n`, tokens, included: included.length }
+}
+
+// Orders entries by how much they tell the model: severity, whether their fingerprint is already
+// represented, closeness to an error-rate anomaly and whether they carry a stack trace
+export function rankLogEntries(logs: ParsedLog): LogEntry[] {
+  const windows = logs.anomalies
+    .filter(anomaly => anomaly.kind !== 'recovery')
+    .map(anomaly => ({ start: Date.parse(anomaly.start), end: Date.parse(anomaly.end) }))
+
+  const proximity = (entry: LogEntry) => {
+    const time = Date.parse(entry.timestamp)
+    if (isNaN(time)) return 0
+
+    let score = 0
+    for (const window of windows) {
+      if (time >= window.start && time < window.end) return ANOMALY_WINDOW_BONUS
+      // The lead-up and aftermath within one window length still count for something
+      const distance = time < window.start ? window.start - time : time - window.end
+      if (distance <= window.end - window.start) score = ANOMALY_WINDOW_BONUS / 2
+    }
+    return score
+  }
+
+  const scored = logs.entries.map((entry, index) => ({
+    entry,
+    index,
+    score: SEVERITY_SCORES[entry.level] + proximity(entry) + (entry.stackTrace ? STACK_TRACE_BONUS : 0)
+  }))
+
+  const byScore = [...scored].sort((a, b) => b.score - a.score || a.index - b.index)
+  const seen = new Map<string, number>()
+  byScore.forEach(item => {
+    const key = item.entry.fingerprint ?? item.entry.message
+    const rank = seen.get(key) || 0
+    seen.set(key, rank + 1)
+    item.score += NOVELTY_BONUS / (rank + 1)
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry }) => entry)
+}
+
+// Builds the log part of the analysis prompt within a token budget: summary statistics always,
+// then detector findings, anomalies, clusters, timeline, request chains and endpoints up to their share of the budget,
+// then as many of the highest-ranked entries as fit. Whatever is left out is listed for the model.
+export function buildLogContext(logs: ParsedLog, draftTimeline: TimelineEvent[], tokenBudget: number): LogContext {
+  const budget = Math.max(0, Math.min(tokenBudget, MAX_LOG_CONTEXT_TOKENS))
+
+  const header = `Log Analysis Context:
+- Total log entries: ${logs.totalEntries}
+- Fatal count: ${logs.fatalCount}
+- Error count: ${logs.errorCount}
+- Warning count: ${logs.warnCount}
+- Time range: ${logs.timeRange.start.toISOString()} to ${logs.timeRange.end.toISOString()}
+- Sources: ${logs.sources.join(', ')}
+${logs.sampling ? `- Sampled: ${logs.sampling.retainedEntries} of ${logs.totalEntries} entries retained (${logs.sampling.droppedErrors} errors beyond the cap were dropped)
+` : ''}
+`
+  // Reserved for the list of omissions, which is only known once everything is packed
+  let remaining = budget - estimateTokens(header) - 100
+
+  const errorClusters = logs.clusters.filter(cluster => cluster.errorCount > 0)
+  const failingChains = logs.requestChains.filter(chain => chain.errorCount > 0)
+  const sections: Section[] = [
+    {
+      name: 'findings',
+      label: 'detector findings',
+      heading: 'Known Failure Patterns (matched by rule-based detectors; confirm or rule them out):',
+      separator: '\n',
+      items: logs.findings.map(finding => `- [${finding.ruleId}] ${finding.severity.toUpperCase()} ${finding.category}: ${finding.title} x${finding.matchCount}${finding.firstSeen ? ` (first seen ${finding.firstSeen}, last seen ${finding.lastSeen})` : ''}${finding.sources.length > 0 ? ` (Sources: ${finding.sources.join(', ')})` : ''}
+  Example: ${truncate(finding.evidence[0]?.message || '', MAX_CONTEXT_CHARS)}
+  Known remediation: ${finding.remediation}`)
+    },
+    {
+      name: 'anomalies',
+      label: 'anomalies',
+      heading: 'Error Rate Anomalies (time windows where errors rose or fell significantly):',
+      separator: '\n',
+      items: logs.anomalies.map(anomaly => `- ${anomaly.kind.toUpperCase()} ${anomaly.start} to ${anomaly.end} in ${anomaly.scope === 'all' ? 'all errors' : `${anomaly.scope} "${anomaly.label}"`}: ${anomaly.errorCount} errors (expected ${anomaly.expectedCount}${anomaly.pValue !== undefined ? `, p=${anomaly.pValue.toPrecision(2)}` : ''})`)
+    },
+    {
+      name: 'clusters',
+      label: 'error clusters',
+      heading: 'Top Error Clusters (messages grouped by template, most severe first):',
+      separator: '\n\n',
+      items: errorClusters.map(cluster => `[${cluster.fingerprint}] ${cluster.level.toUpperCase()} x${cluster.count}${cluster.firstSeen ? ` (first seen ${cluster.firstSeen}, last seen ${cluster.lastSeen})` : ''}${cluster.sources.length > 0 ? ` (Sources: ${cluster.sources.join(', ')})` : ''}
+Template: ${cluster.template}
+Examples:
+${cluster.examples.map(example => `  - ${example}`).join('\n')}${cluster.exampleContext ? `\nContext: ${truncate(JSON.stringify(cluster.exampleContext), MAX_CONTEXT_CHARS)}` : ''}${cluster.stackTrace ? `\nStack: ${formatStack(cluster.stackTrace, cluster.stackFrames)}` : ''}`)
+    },
+    {
+      name: 'timeline',
+      label: 'timeline events',
+      heading: 'Draft Incident Timeline (derived from the logs, event ids in brackets):',
+      separator: '\n',
+      items: draftTimeline.map(event => `- [${event.id}] ${event.time} ${event.kind.toUpperCase()}${event.component ? ` (${event.component})` : ''}: ${event.title}${event.occurrences > 1 ? ` (x${event.occurrences})` : ''}`)
+    },
+    {
+      name: 'chains',
+      label: 'request chains',
+      heading: 'Failing Request Chains (entries from different files linked by trace/request ids, in time order):',
+      separator: '\n\n',
+      items: failingChains.map(chain => `Chain ${chain.ids.map(id => `${id.kind}=${id.value}`).join(', ')} (${chain.files.length} files, ${chain.entryCount} entries, ${chain.errorCount} errors${chain.durationMs !== undefined ? `, ${chain.durationMs}ms` : ''}):
+${chain.entries
+  .map(entry => `  [${entry.timestamp}] ${entry.level.toUpperCase()} ${entry.context?.file || entry.source || ''}: ${entry.message}`)
+  .join('\n')}`)
+    },
+    {
+      name: 'endpoints',
+      label: 'endpoints',
+      heading: 'HTTP Endpoint Error Rates:',
+      separator: '\n',
+      items: logs.endpointStats.map(stats => `- ${stats.endpoint}: ${stats.requests} requests, ${stats.serverErrors} 5xx (${(stats.errorRate * 100).toFixed(1)}%), ${stats.clientErrors} 4xx${stats.p95LatencyMs !== undefined ? `, p95 latency ${stats.p95LatencyMs}ms` : ''}`)
+    }
+  ]
+
+  const packed = new Map<Section['name'], PackedSection>()
+  sections.forEach(section => {
+    const result = packSection(section, Math.min(remaining, budget * SECTION_SHARES[section.name]))
+    remaining -= result.tokens
+    packed.set(section.name, result)
+  })
+
+  // Entries are chosen by rank but shown in time order
+  const heading = 'Log Evidence (highest-value entries, in time order):'
+  const chosen = new Set<LogEntry>()
+  const rankedEntries = rankLogEntries(logs)
+  remaining -= estimateTokens(`${heading}\n\n`)
+  for (const entry of rankedEntries) {
+    const tokens = estimateTokens(`${formatEntry(entry)}\n`)
+    if (tokens > remaining) continue
+    remaining -= tokens
+    chosen.add(entry)
+  }
+  const evidence = chosen.size > 0
+    ? `${heading}\n${logs.entries.filter(entry => chosen.has(entry)).map(formatEntry).join('\n')}\n\n`
+    : ''
+
+  // Budget the entries didn't need goes back to the sections that were cut short
+  sections.forEach(section => {
+    const previous = packed.get(section.name)
+    if (!previous || previous.included === section.items.length || remaining <= 0) return
+    const result = packSection(section, previous.tokens + remaining)
+    remaining -= result.tokens - previous.tokens
+    packed.set(section.name, result)
+  })
+
+  const includedClusters = errorClusters.slice(0, packed.get('clusters')?.included || 0)
+  const representedFingerprints = new Set([
+    ...includedClusters.map(cluster => cluster.fingerprint),
+    ...Array.from(chosen, entry => entry.fingerprint)
+  ])
+  const omittedEntries = rankedEntries.filter(entry => !chosen.has(entry))
+  const report: PromptContextReport = {
+    tokenBudget: budget,
+    estimatedTokens: 0,
+    includedEntries: chosen.size,
+    omittedEntries: omittedEntries.length,
+    omittedErrors: omittedEntries.filter(entry => isErrorLevel(entry.level)).length,
+    omittedFingerprints: errorClusters
+      .filter(cluster => !representedFingerprints.has(cluster.fingerprint))
+      .map(cluster => cluster.fingerprint),
+    omittedItems: sections
+      .map(section => ({ section: section.label, count: section.items.length - (packed.get(section.name)?.included || 0) }))
+      .filter(item => item.count > 0)
+  }
+
+  const omissions = [
+    report.omittedEntries > 0 ? `${report.omittedEntries} log entries (${report.omittedErrors} errors)` : '',
+    report.omittedFingerprints.length > 0 ? `${report.omittedFingerprints.length} error clusters with no example` : '',
+    ...report.omittedItems.map(item => `${item.count} ${item.section}`)
+  ].filter(Boolean)
+
+  const text = header +
+    (packed.get('findings')?.text || '') +
+    (packed.get('clusters')?.text || '') +
+    evidence +
+    (packed.get('anomalies')?.text || '') +
+    (packed.get('chains')?.text || '') +
+    (packed.get('timeline')?.text || '') +
+    (packed.get('endpoints')?.text || '') +
+    (omissions.length > 0 ? `Left out to fit the context window: ${omissions.join(', ')}.\n\n` : '')
+
+  report.estimatedTokens = estimateTokens(text)
+  return { text, report }
+}
@@ -0,0 +1,23 @@
+export type ArchiveType = 'gzip' | 'zip' | 'tar' | 'tar.gz'
+
+// Plain log files, including rotated ones such as app.log.1 or kubelet's 0.log.20240614-120000 and well-known syslog file names
+const LOG_FILE_PATTERN = /(\.(log|txt|out|err|json|jsonl|ndjson)(\.[\d-]+)?|(^|\/)(messages|syslog|kern|auth|daemon|dmesg)(\.\d+)?)$/i
+
+export const UPLOAD_ACCEPT = '.log,.txt,.out,.err,.json,.jsonl,.ndjson,.gz,.tgz,.tar,.zip,.map'
+
+export function getArchiveType(fileName: string): ArchiveType | null {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz'
+  if (name.endsWith('.tar')) return 'tar'
+  if (name.endsWith('.zip')) return 'zip'
+  if (name.endsWith('.gz')) return 'gzip'
+  return null
+}
+
+export function isLogFileName(fileName: string): boolean {
+  return LOG_FILE_PATTERN.test(fileName)
+}
+
+export function isSupportedUpload(fileName: string): boolean {
+  return isLogFileName(fileName) || getArchiveType(fileName) !== null
+}
@@ -0,0 +1,190 @@
+import { LogEntry, LogFormatDefinition } from '@/types'
+import { normalizeLogLevel } from './log-levels'
+
+export const BUILT_IN_LOG_FORMATS = [
+  'syslog-5424',
+  'syslog-3164',
+  'access-log',
+  'nginx-json-access',
+  'standard',
+  'json',
+  'logfmt',
+  'nginx',
+  'apache',
+  'application'
+]
+
+// Grok pattern library. Patterns only use non-capturing groups so that
+// %{NAME:field} references are the only captures in a compiled expression.
+const GROK_PATTERNS: Record<string, string> = {
+  INT: '[+-]?\\d+',
+  POSINT: '\\b[1-9]\\d*\\b',
+  NUMBER: '[+-]?(?:\\d+(?:\\.\\d+)?|\\.\\d+)',
+  WORD: '\\b\\w+\\b',
+  NOTSPACE: '\\S+',
+  SPACE: '\\s*',
+  DATA: '.*?',
+  GREEDYDATA: '.*',
+  QUOTEDSTRING: '"(?:[^"\\\\]|\\\\.)*"',
+  QS: '%{QUOTEDSTRING}',
+  UUID: '[A-Fa-f0-9]{8}-(?:[A-Fa-f0-9]{4}-){3}[A-Fa-f0-9]{12}',
+  IPV4: '(?:\\d{1,3}\\.){3}\\d{1,3}',
+  IPV6: '[A-Fa-f0-9:]*:[A-Fa-f0-9:.]+',
+  IP: '(?:%{IPV6}|%{IPV4})',
+  HOSTNAME: '\\b[0-9A-Za-z][0-9A-Za-z-]{0,62}(?:\\.[0-9A-Za-z][0-9A-Za-z-]{0,62})*\\.?\\b',
+  IPORHOST: '(?:%{IP}|%{HOSTNAME})',
+  PATH: '(?:/[^\\s]*)+',
+  URIPATH: '/[^\\s?#]*',
+  URIPARAM: '\\?[^\\s#]*',
+  USERNAME: '[a-zA-Z0-9._-]+',
+  JAVACLASS: '(?:[a-zA-Z$_][a-zA-Z$_0-9]*\\.)*[a-zA-Z$_][a-zA-Z$_0-9]*',
+  LOGLEVEL: '(?:[Aa]lert|ALERT|[Tt]race|TRACE|[Dd]ebug|DEBUG|[Nn]otice|NOTICE|[Ii]nfo|INFO|[Ww]arn(?:ing)?|WARN(?:ING)?|[Ee]rr(?:or)?|ERR(?:OR)?|[Cc]rit(?:ical)?|CRIT(?:ICAL)?|[Ff]atal|FATAL|[Ss]evere|SEVERE|[Ee]merg(?:ency)?|EMERG(?:ENCY)?)',
+  YEAR: '\\d{4}',
+  MONTHNUM: '(?:0?[1-9]|1[0-2])',
+  MONTHDAY: '(?:0?[1-9]|[12]\\d|3[01])',
+  MONTH: '\\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\b',
+  DAY: '\\b(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*\\b',
+  HOUR: '(?:2[0-3]|[01]?\\d)',
+  MINUTE: '[0-5]\\d',
+  SECOND: '(?:[0-5]?\\d|60)(?:[.,]\\d+)?',
+  TIME: '%{HOUR}:%{MINUTE}(?::%{SECOND})?',
+  ISO8601_TIMEZONE: '(?:Z|[+-]%{HOUR}(?::?%{MINUTE})?)',
+  TIMESTAMP_ISO8601: '%{YEAR}-%{MONTHNUM}-%{MONTHDAY}[T ]%{HOUR}:?%{MINUTE}(?::?%{SECOND})?%{ISO8601_TIMEZONE}?',
+  HTTPDATE: '%{MONTHDAY}/%{MONTH}/%{YEAR}:%{TIME} [+-]\\d{4}',
+  SYSLOGTIMESTAMP: '%{MONTH} +%{MONTHDAY} %{TIME}',
+  DATESTAMP: '%{MONTHNUM}[/-]%{MONTHDAY}[/-]%{YEAR} %{TIME}'
+}
+
+const LOG_ENTRY_FIELDS = ['timestamp', 'level', 'message', 'source', 'stackTrace'] as const
+
+interface CaptureField {
+  group: string
+  name: string
+  type?: 'int' | 'float'
+}
+
+export interface CompiledLogFormat {
+  definition: LogFormatDefinition
+  expression: RegExp
+  fields: CaptureField[]
+}
+
+export class LogFormatRegistry {
+  private formats: Map<string, CompiledLogFormat> = new Map()
+
+  constructor(definitions: LogFormatDefinition[] = []) {
+    definitions.forEach(definition => {
+      try {
+        this.register(definition)
+      } catch (error) {
+        console.error(`Skipping log format ${definition.name}:`, error)
+      }
+    })
+  }
+
+  register(definition: LogFormatDefinition): CompiledLogFormat {
+    if (!definition.name) {
+      throw new Error('Log format name is required')
+    }
+    if (BUILT_IN_LOG_FORMATS.includes(definition.name)) {
+      throw new Error(`Log format ${definition.name} is built in`)
+    }
+
+    const compiled = definition.type === 'regex'
+      ? compileRegexFormat(definition)
+      : compileGrokFormat(definition)
+    this.formats.set(definition.name, compiled)
+    return compiled
+  }
+
+  get(name: string): CompiledLogFormat | undefined {
+    return this.formats.get(name)
+  }
+
+  has(name: string): boolean {
+    return this.formats.has(name)
+  }
+
+  list(): CompiledLogFormat[] {
+    return Array.from(this.formats.values())
+  }
+
+  parseLine(format: CompiledLogFormat, line: string): LogEntry | null {
+    const match = line.match(format.expression)
+    if (!match?.groups) return null
+
+    const entry: LogEntry = {
+      timestamp: '',
+      level: 'info',
+      message: line.trim(),
+      source: format.definition.source || format.definition.name
+    }
+    const context: Record<string, unknown> = {}
+
+    format.fields.forEach(field => {
+      const raw = match.groups![field.group]
+      if (raw === undefined) return
+
+      const name = field.name.replace(/^context\./, '')
+      if (name === field.name && (LOG_ENTRY_FIELDS as readonly string[]).includes(name)) {
+        if (name === 'level') {
+          entry.level = normalizeLogLevel(raw)
+        } else {
+          entry[name as Exclude<typeof LOG_ENTRY_FIELDS[number], 'level'>] = raw.trim()
+        }
+        return
+      }
+
+      if (field.type === 'int') context[name] = parseInt(raw, 10)
+      else if (field.type === 'float') context[name] = parseFloat(raw)
+      else context[name] = raw
+    })
+
+    if (Object.keys(context).length > 0) entry.context = context
+    return entry
+  }
+}
+
+function compileGrokFormat(definition: LogFormatDefinition): CompiledLogFormat {
+  // %{TIMESTAMP_ISO8601:timestamp} %{LOGLEVEL:level} %{NUMBER:duration:float}
+  const fields: CaptureField[] = []
+  const source = definition.pattern.replace(
+    /%\{(\w+)(?::([\w.@-]+))?(?::(int|float))?\}/g,
+    (_, patternName: string, fieldName?: string, type?: 'int' | 'float') => {
+      const expanded = expandGrokPattern(patternName, new Set())
+      if (!fieldName) return `(?:${expanded})`
+
+      const group = `f${fields.length}`
+      fields.push({ group, name: fieldName, type })
+      return `(?<${group}>${expanded})`
+    }
+  )
+
+  return { definition, expression: new RegExp(`^${source}$`), fields }
+}
+
+function compileRegexFormat(definition: LogFormatDefinition): CompiledLogFormat {
+  // ^(?<timestamp>\S+) \[(?<level>\w+)\] (?<message>.*)$
+  const expression = new RegExp(definition.pattern)
+  const fields: CaptureField[] = Array.from(definition.pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g))
+    .map(([, group]) => ({ group, name: group }))
+
+  if (fields.length === 0) {
+    throw new Error(`Log format ${definition.name} has no named capture groups`)
+  }
+
+  return { definition, expression, fields }
+}
+
+function expandGrokPattern(name: string, seen: Set<string>): string {
+  const pattern = GROK_PATTERNS[name]
+  if (pattern === undefined) {
+    throw new Error(`Unknown grok pattern: ${name}`)
+  }
+  if (seen.has(name)) {
+    throw new Error(`Recursive grok pattern: ${name}`)
+  }
+
+  const nested = new Set(seen).add(name)
+  return pattern.replace(/%\{(\w+)\}/g, (_, inner: string) => `(?:${expandGrokPattern(inner, nested)})`)
+}
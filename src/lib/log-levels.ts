@@ -0,0 +1,73 @@
+import { LogLevel } from '@/types'
+
+// Ordered from most to least severe
+export const LOG_LEVELS: LogLevel[] = ['fatal', 'error', 'warn', 'info', 'debug', 'trace']
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  fatal: 'fatal',
+  f: 'fatal',
+  critical: 'fatal',
+  crit: 'fatal',
+  c: 'fatal',
+  emergency: 'fatal',
+  emerg: 'fatal',
+  alert: 'fatal',
+  a: 'fatal',
+  panic: 'fatal',
+  error: 'error',
+  err: 'error',
+  e: 'error',
+  severe: 'error',
+  exception: 'error',
+  warning: 'warn',
+  warn: 'warn',
+  w: 'warn',
+  notice: 'info',
+  information: 'info',
+  informational: 'info',
+  info: 'info',
+  i: 'info',
+  debug: 'debug',
+  dbg: 'debug',
+  d: 'debug',
+  fine: 'debug',
+  config: 'debug',
+  trace: 'trace',
+  t: 'trace',
+  verbose: 'trace',
+  v: 'trace',
+  finer: 'trace',
+  finest: 'trace',
+  silly: 'trace'
+}
+
+export function normalizeLogLevel(value: unknown, fallback: LogLevel = 'info'): LogLevel {
+  if (value === undefined || value === null || value === '') return fallback
+
+  // pino/bunyan numeric levels: 10 trace, 20 debug, 30 info, 40 warn, 50 error, 60 fatal
+  const numeric = typeof value === 'number' ? value : /^\d+$/.test(String(value).trim()) ? Number(value) : NaN
+  if (!isNaN(numeric)) {
+    if (numeric >= 60) return 'fatal'
+    if (numeric >= 50) return 'error'
+    if (numeric >= 40) return 'warn'
+    if (numeric >= 30) return 'info'
+    if (numeric >= 20) return 'debug'
+    return numeric >= 10 ? 'trace' : fallback
+  }
+
+  return LEVEL_ALIASES[String(value).trim().toLowerCase()] || fallback
+}
+
+export function isKnownLogLevel(value: unknown): boolean {
+  if (typeof value === 'number') return true
+  if (typeof value !== 'string') return false
+  return /^\d+$/.test(value.trim()) || LEVEL_ALIASES[value.trim().toLowerCase()] !== undefined
+}
+
+export function getLogLevelRank(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level)
+}
+
+export function isErrorLevel(level: LogLevel): boolean {
+  return level === 'fatal' || level === 'error'
+}
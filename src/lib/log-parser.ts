@@ -1,64 +1,473 @@
-import { LogEntry, ParsedLog } from '@/types'
+import type { Readable } from 'stream'
+import { LogEntry, LogFile, LogLevel, ParsedLog } from '@/types'
+import { LogFormatRegistry } from './log-format-registry'
+import { isKnownLogLevel, normalizeLogLevel } from './log-levels'
+import { ParsedLogBuilder } from './parsed-log-builder'
+import { SourceMapResolver } from './source-maps'
+import { normalizeTimestamp } from './timestamps'
+
+type LineParser = (line: string) => LogEntry | null
+
+export interface ParseOptions {
+  // File path the entries came from, including the member path inside archives
+  name?: string
+  format?: string
+  timezone?: string
+}
+
+export interface ParseProgress {
+  fileName?: string
+  bytesRead: number
+  totalBytes?: number
+  entriesParsed: number
+}
+
+export interface LogStreamInput extends ParseOptions {
+  stream: Readable | ReadableStream<Uint8Array>
+  size?: number
+}
+
+interface LineConsumer {
+  push(line: string): void
+  flush(): void
+}
+
+interface ContainerLine {
+  payload: string
+  time?: string
+  stream?: string
+  // CRI "P" records and Docker records without a trailing newline continue in the next record
+  partial: boolean
+}
+
+interface KubernetesLogPath {
+  namespace: string
+  pod: string
+  container: string
+}
+
+// Crash headers that start a new error entry rather than continuing the previous one
+const UNCAUGHT_EXCEPTION_PATTERNS = [
+  /^panic: /, // Go
+  /^Exception in thread "[^"]*" /, // JVM
+  /^Unhandled [Ee]xception[.:]/ // .NET
+]
+
+// Lines that always belong to a stack trace
+const STACK_TRACE_PATTERNS = [
+  /^\s+at\s+\S/, // JVM, Node/V8 and .NET frames
+  /^\s*\.\.\. \d+ (more|common frames omitted)/, // JVM elided frames
+  /^\s*(Caused by|Suppressed): /, // JVM chained exceptions
+  /^Traceback \(most recent call last\):/, // Python
+  /^\s*File "[^"]+", line \d+/, // Python frames
+  /^(During handling of the above exception|The above exception was the direct cause)/, // Python chained exceptions
+  /^\s*---> \S/, // .NET inner exception
+  /^\s*--- End of (inner exception stack trace|stack trace from previous location)/, // .NET
+  /^goroutine \d+ \[[^\]]+\]:$/, // Go
+  /^\[signal /, // Go
+  /^\s+from \S+:\d+:in [`']/, // Ruby frames
+  /^[\w$.]*(Error|Exception|Throwable|Exit|Interrupt)(:|$)/ // Exception header (JVM, Node, Python, .NET)
+]
+
+// Lines that only belong to a stack trace once one has started
+const STACK_TRACE_BODY_PATTERNS = [
+  /^\s+\S/, // Indented frames, Python source lines, Go file:line
+  /^[\w./*()-]+\(.*\)$/, // Go function frames
+  /^created by /, // Go
+  /^exit status \d+$/ // Go
+]
+
+// JSON fields that map onto LogEntry properties
+const JSON_ENTRY_FIELDS = new Set([
+  'timestamp', 'time', '@timestamp', 'level', 'severity', 'levelname', 'message', 'msg',
+  'service', 'source', 'logger', 'stack', 'stackTrace', 'context', 'meta'
+])
+
+// CRI/containerd: 2024-06-14T12:00:00.123456789Z stderr F message
+const CRI_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\S+) (stdout|stderr) ([PF])(?: (.*))?$/
+
+// kubectl logs --timestamps prefixes each line with an RFC 3339 time
+const KUBECTL_TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})) (.*)$/
+
+// Partial container records are joined up to this length, then emitted as they are
+const MAX_PARTIAL_LINE_LENGTH = 1024 * 1024
+
+const SYSLOG_FACILITIES = [
+  'kern', 'user', 'mail', 'daemon', 'auth', 'syslog', 'lpr', 'news',
+  'uucp', 'cron', 'authpriv', 'ftp', 'ntp', 'security', 'console', 'solaris-cron',
+  'local0', 'local1', 'local2', 'local3', 'local4', 'local5', 'local6', 'local7'
+]
+
+const SYSLOG_SEVERITIES = ['emerg', 'alert', 'crit', 'err', 'warning', 'notice', 'info', 'debug']
+
+function decodeSyslogPriority(priority: number) {
+  const facility = SYSLOG_FACILITIES[priority >> 3] || `facility${priority >> 3}`
+  const severity = SYSLOG_SEVERITIES[priority & 7]
+  return { facility, severity, level: normalizeLogLevel(severity) }
+}
+
+function parseStructuredData(structuredData: string): Record<string, Record<string, string>> {
+  // [exampleSDID@32473 iut="3" eventSource="Application"][examplePriority@32473 class="high"]
+  const elements: Record<string, Record<string, string>> = {}
+  const elementPattern = /\[([^\s\]]+)((?:\s+[^\s=\]]+="(?:[^"\\]|\\.)*")*)\s*\]/g
+  const paramPattern = /([^\s=\]]+)="((?:[^"\\]|\\.)*)"/g
+
+  for (const [, id, params] of structuredData.matchAll(elementPattern)) {
+    const values: Record<string, string> = {}
+    for (const [, name, value] of params.matchAll(paramPattern)) {
+      values[name] = value.replace(/\\(["\\\]])/g, '$1')
+    }
+    elements[id] = values
+  }
+
+  return elements
+}
+
+interface AccessLogFields {
+  timestamp: string
+  method: string
+  path: string
+  status: number
+  bytes?: number
+  latencyMs?: number
+  upstream?: string
+  upstreamLatencyMs?: number
+  clientIp?: string
+  referer?: string
+  userAgent?: string
+}
+
+function buildAccessLogEntry(fields: AccessLogFields, source: string): LogEntry {
+  const { timestamp, method, path, status } = fields
+  const context: Record<string, unknown> = {}
+  Object.entries(fields).forEach(([key, value]) => {
+    if (key !== 'timestamp' && value !== undefined && value !== '' && value !== '-') {
+      context[key] = value
+    }
+  })
+
+  return {
+    timestamp,
+    level: status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info',
+    message: `${method} ${path} ${status}`,
+    source,
+    context
+  }
+}
+
+function secondsToMs(value: unknown): number | undefined {
+  // nginx reports $request_time and $upstream_response_time in seconds ("-" when absent)
+  const seconds = parseFloat(String(value))
+  return isNaN(seconds) ? undefined : Math.round(seconds * 1000)
+}
+
+async function* readChunks(stream: Readable | ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if ('getReader' in stream) {
+    const reader = stream.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) return
+        yield value
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+
+  for await (const chunk of stream as AsyncIterable<Uint8Array | string>) {
+    yield typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk
+  }
+}
+
+function parseLogfmt(text: string): Record<string, unknown> | null {
+  // key=value pairs separated by spaces; values may be "quoted" with \" escapes, bare keys are flags
+  const tokenPattern = /\s*([^\s="]+)(?:=(?:"((?:[^"\\]|\\.)*)"|([^\s"]*)))?/y
+  const pairs: Record<string, unknown> = {}
+  let assignments = 0
+
+  while (tokenPattern.lastIndex < text.length) {
+    const start = tokenPattern.lastIndex
+    const match = tokenPattern.exec(text)
+    if (!match || tokenPattern.lastIndex === start) {
+      if (text.slice(start).trim() === '') break
+      return null
+    }
+
+    const [token, key, quoted, bare] = match
+    if (!token.includes('=')) {
+      // Lines start with an assignment; leading words are a timestamp, level or message of another format
+      if (assignments === 0) return null
+      pairs[key] = true
+    } else if (quoted !== undefined) {
+      pairs[key] = quoted.replace(/\\(.)/g, (_, character: string) => character === 'n' ? '\n' : character === 't' ? '\t' : character)
+      assignments++
+    } else {
+      pairs[key] = /^-?\d+(\.\d+)?$/.test(bare) ? Number(bare) : bare === 'true' ? true : bare === 'false' ? false : bare
+      assignments++
+    }
+  }
+
+  // A couple of assignments keeps plain sentences with a stray "=" from matching
+  return assignments >= 2 ? pairs : null
+}
+
+function parseContainerLine(line: string): ContainerLine | null {
+  const cri = line.match(CRI_LINE_PATTERN)
+  if (cri) {
+    return { time: cri[1], stream: cri[2], partial: cri[3] === 'P', payload: cri[4] || '' }
+  }
+
+  // Docker json-file: {"log":"message\n","stream":"stderr","time":"2024-06-14T12:00:00.123456789Z"}
+  if (!line.startsWith('{') || !line.includes('"log"')) return null
+  try {
+    const json = JSON.parse(line)
+    if (typeof json.log !== 'string' || typeof json.stream !== 'string') return null
+    return {
+      time: json.time,
+      stream: json.stream,
+      partial: !json.log.endsWith('\n'),
+      payload: json.log.replace(/\r?\n$/, '')
+    }
+  } catch {
+    return null
+  }
+}
+
+function parseKubernetesLogPath(name?: string): KubernetesLogPath | null {
+  if (!name) return null
+
+  // kubelet layout: /var/log/pods/<namespace>_<pod>_<uid>/<container>/<restart>.log, plus rotated copies
+  const pods = name.match(/(?:^|\/)pods\/([^_/]+)_([^_/]+)_[^/]+\/([^/]+)\/\d+\.log(?:\.[\w-]+)?$/)
+  if (pods) return { namespace: pods[1], pod: pods[2], container: pods[3] }
+
+  // Symlinks in /var/log/containers/<pod>_<namespace>_<container>-<container id>.log
+  const containers = name.match(/(?:^|\/)containers\/([^_/]+)_([^_/]+)_(.+)-[0-9a-f]{64}\.log$/)
+  if (containers) return { namespace: containers[2], pod: containers[1], container: containers[3] }
+
+  return null
+}
 
 export class LogParser {
-  async parseLogFiles(): Promise<ParsedLog> {
-    // In a real implementation, you would read the actual files
-    // For now, we'll simulate parsing with sample data
-    const entries: LogEntry[] = []
-    let errorCount = 0
-    let warnCount = 0
-    const sources = new Set<string>()
-    
-    // Simulate log parsing - in real implementation, read actual files
-    const sampleEntries = this.generateSampleEntries()
-    entries.push(...sampleEntries)
-    
-    // Count entries by level
-    entries.forEach(entry => {
-      if (entry.level === 'error') errorCount++
-      if (entry.level === 'warn') warnCount++
-      if (entry.source) sources.add(entry.source)
+  private builtInFormats: Record<string, LineParser> = {
+    'syslog-5424': this.parseSyslog5424Format,
+    'syslog-3164': this.parseSyslog3164Format,
+    'access-log': this.parseAccessLogFormat,
+    'nginx-json-access': this.parseNginxJSONAccessFormat,
+    'standard': this.parseStandardFormat,
+    'json': this.parseJSONFormat,
+    'logfmt': this.parseLogfmtFormat,
+    'nginx': this.parseNginxFormat,
+    'apache': this.parseApacheFormat,
+    'application': this.parseApplicationFormat
+  }
+
+  constructor(
+    private formatRegistry: LogFormatRegistry = new LogFormatRegistry(),
+    private sourceMaps?: SourceMapResolver
+  ) {}
+
+  async parseLogFiles(files: LogFile[]): Promise<ParsedLog> {
+    const builder = new ParsedLogBuilder()
+
+    files.forEach(file => {
+      builder.beginFile()
+      this.parseLogContent(file.content, { name: file.name, format: file.format, timezone: file.timezone })
+        .forEach(entry => builder.add(entry))
     })
 
-    // Find time range
-    const timestamps = entries.map(e => new Date(e.timestamp)).sort()
-    const start = timestamps[0] || new Date()
-    const end = timestamps[timestamps.length - 1] || new Date()
+    return builder.build()
+  }
 
-    return {
-      entries,
-      totalEntries: entries.length,
-      errorCount,
-      warnCount,
-      timeRange: { start, end },
-      sources: Array.from(sources)
+  async parseLogStream(
+    input: LogStreamInput,
+    builder: ParsedLogBuilder,
+    onProgress?: (progress: ParseProgress) => void
+  ): Promise<void> {
+    // Decode chunk by chunk so only the current partial line is held in memory
+    const decoder = new TextDecoder()
+    let remainder = ''
+    let bytesRead = 0
+    let entriesParsed = 0
+    const consumer = this.createLineConsumer(input, entry => {
+      entriesParsed++
+      builder.add(entry)
+    })
+    builder.beginFile()
+
+    for await (const chunk of readChunks(input.stream)) {
+      bytesRead += chunk.byteLength
+      const lines = (remainder + decoder.decode(chunk, { stream: true })).split('\n')
+      remainder = lines.pop() || ''
+      lines.forEach(line => consumer.push(line))
+      onProgress?.({ fileName: input.name, bytesRead, totalBytes: input.size, entriesParsed })
     }
+
+    remainder += decoder.decode()
+    if (remainder) consumer.push(remainder)
+    consumer.flush()
+    onProgress?.({ fileName: input.name, bytesRead, totalBytes: input.size, entriesParsed })
   }
 
-  parseLogContent(content: string): LogEntry[] {
-    const lines = content.split('\n').filter(line => line.trim())
+  parseLogContent(content: string, options: ParseOptions = {}): LogEntry[] {
     const entries: LogEntry[] = []
+    const consumer = this.createLineConsumer(options, entry => entries.push(entry))
+
+    content.split('\n').forEach(line => consumer.push(line))
+    consumer.flush()
+
+    return entries
+  }
 
-    lines.forEach(line => {
-      const entry = this.parseLogLine(line)
+  private createLineConsumer(options: ParseOptions, onEntry: (entry: LogEntry) => void): LineConsumer {
+    const formats = this.resolveFormats(options.format)
+    const kubernetes = parseKubernetesLogPath(options.name)
+    const kubernetesSource = kubernetes && `${kubernetes.namespace}/${kubernetes.pod}/${kubernetes.container}`
+    // Partial container records waiting for their final chunk, per output stream
+    const partials = new Map<string, ContainerLine>()
+    // The latest entry is held back until the next one starts, since stack trace lines may still follow it
+    let previous: LogEntry | undefined
+    let inStackTrace = false
+
+    // Stack traces are complete once an entry is handed on, so minified frames are rewritten here
+    const emit = (entry: LogEntry) => {
+      const stackFrames = entry.stackTrace && this.sourceMaps?.resolveStackTrace(entry.stackTrace)
+      if (stackFrames) entry.stackFrames = stackFrames
+      onEntry(entry)
+    }
+
+    const startEntry = (entry: LogEntry) => {
+      if (previous) emit(previous)
+      if (kubernetes) {
+        // The pod identity replaces the file path as source; a logger named in the payload moves to context
+        const logger = entry.source && entry.source !== kubernetesSource ? { logger: entry.source } : {}
+        entry.context = { ...entry.context, ...logger, ...kubernetes }
+        entry.source = kubernetesSource || undefined
+      }
+      if (options.name) {
+        entry.context = { ...entry.context, file: options.name }
+        entry.source = entry.source || options.name
+      }
+      previous = entry
+    }
+
+    const consumeLine = (line: string, container?: ContainerLine) => {
+      const streamContext = container?.stream ? { stream: container.stream } : undefined
+      const entry = this.parseLogLine(line, formats)
       if (entry) {
-        entries.push(entry)
+        if (container) {
+          entry.timestamp = entry.timestamp || container.time || ''
+          entry.context = streamContext ? { ...entry.context, ...streamContext } : entry.context
+        }
+        this.normalizeEntryTimestamp(entry, options.timezone)
+        startEntry(entry)
+        inStackTrace = false
+        return
       }
-    })
 
-    return entries
+      if (!container) {
+        const kubectl = line.match(KUBECTL_TIMESTAMP_PATTERN)
+        if (kubectl && kubectl[2].trim()) {
+          consumeLine(kubectl[2], { time: kubectl[1], payload: kubectl[2], partial: false })
+          return
+        }
+      }
+
+      // Lines that don't parse on their own may continue the previous entry's stack trace
+      const isUncaught = UNCAUGHT_EXCEPTION_PATTERNS.some(pattern => pattern.test(line))
+      if (isUncaught || (!previous && this.isStackTraceLine(line, true))) {
+        startEntry({
+          timestamp: container?.time ? normalizeTimestamp(container.time) || '' : previous?.timestamp || '',
+          level: isUncaught ? 'fatal' : 'error',
+          message: line.trim(),
+          source: previous?.source,
+          context: streamContext
+        })
+        inStackTrace = true
+        return
+      }
+
+      if (previous && this.isStackTraceLine(line, inStackTrace)) {
+        previous.stackTrace = previous.stackTrace ? `${previous.stackTrace}\n${line}` : line
+        inStackTrace = true
+        return
+      }
+
+      inStackTrace = false
+      if (container) {
+        // Container runtimes record every line, so plain output still becomes an entry
+        const plain: LogEntry = { timestamp: container.time || '', level: 'info', message: line.trim(), context: streamContext }
+        this.normalizeEntryTimestamp(plain, options.timezone)
+        startEntry(plain)
+      }
+    }
+
+    return {
+      push: (rawLine: string) => {
+        const line = rawLine.replace(/\r$/, '')
+        if (!line.trim()) return
+
+        const container = parseContainerLine(line)
+        if (!container) {
+          consumeLine(line)
+          return
+        }
+
+        // Reassemble lines the runtime split into several records; the first record carries the time
+        const key = container.stream || ''
+        const pending = partials.get(key)
+        const joined = pending ? { ...pending, payload: pending.payload + container.payload, partial: container.partial } : container
+        if (joined.partial && joined.payload.length < MAX_PARTIAL_LINE_LENGTH) {
+          partials.set(key, joined)
+          return
+        }
+
+        partials.delete(key)
+        if (joined.payload.trim()) consumeLine(joined.payload, joined)
+      },
+      flush: () => {
+        partials.forEach(pending => {
+          if (pending.payload.trim()) consumeLine(pending.payload, pending)
+        })
+        partials.clear()
+        if (previous) emit(previous)
+        previous = undefined
+        inStackTrace = false
+      }
+    }
+  }
+
+  private normalizeEntryTimestamp(entry: LogEntry, timezone?: string) {
+    // Parsers hand over whatever the line contained (strings, epoch numbers)
+    const raw: unknown = entry.timestamp
+    if (raw !== undefined && raw !== null && raw !== '') {
+      entry.rawTimestamp = String(raw)
+    }
+    entry.timestamp = normalizeTimestamp(raw, timezone) || ''
   }
 
-  private parseLogLine(line: string): LogEntry | null {
-    // Try different log formats
-    const formats = [
-      this.parseStandardFormat,
-      this.parseJSONFormat,
-      this.parseNginxFormat,
-      this.parseApacheFormat,
-      this.parseApplicationFormat
+  private isStackTraceLine(line: string, inStackTrace: boolean): boolean {
+    if (STACK_TRACE_PATTERNS.some(pattern => pattern.test(line))) return true
+    return inStackTrace && STACK_TRACE_BODY_PATTERNS.some(pattern => pattern.test(line))
+  }
+
+  private resolveFormats(format?: string): LineParser[] {
+    // A pinned format skips trial-and-error matching against every parser
+    if (format) {
+      const custom = this.formatRegistry.get(format)
+      if (custom) return [line => this.formatRegistry.parseLine(custom, line)]
+      if (this.builtInFormats[format]) return [this.builtInFormats[format]]
+      console.error(`Unknown log format ${format}, falling back to auto-detection`)
+    }
+
+    // User-defined formats take precedence over the built-in ones
+    return [
+      ...this.formatRegistry.list().map(custom => (line: string) => this.formatRegistry.parseLine(custom, line)),
+      ...Object.values(this.builtInFormats)
     ]
+  }
 
+  private parseLogLine(line: string, formats: LineParser[]): LogEntry | null {
     for (const format of formats) {
       try {
         const result = format(line)
@@ -66,11 +475,111 @@ export class LogParser {
       } catch {
         // Continue to next format
       }
-   }
+    }
 
     return null
   }
 
+  private parseSyslog5424Format(line: string): LogEntry | null {
+    // Parse RFC 5424: <165>1 2024-06-14T12:00:00.000Z host app 1234 ID47 [exampleSDID@32473 iut="3"] Message
+    const match = line.match(/^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[(?:[^\]\\]|\\.)*\])+)(?: (.*))?$/)
+    if (!match) return null
+
+    const [, pri, , timestamp, hostname, appName, procId, msgId, structuredData, message = ''] = match
+    const { facility, severity, level } = decodeSyslogPriority(Number(pri))
+    const context: Record<string, unknown> = { facility, severity }
+    if (hostname !== '-') context.hostname = hostname
+    if (procId !== '-') context.procid = procId
+    if (msgId !== '-') context.msgid = msgId
+    if (structuredData !== '-') context.structuredData = parseStructuredData(structuredData)
+
+    return {
+      timestamp: timestamp === '-' ? '' : timestamp,
+      level,
+      message: message.replace(/^\uFEFF/, '').trim(),
+      source: appName === '-' ? 'syslog' : appName,
+      context
+    }
+  }
+
+  private parseSyslog3164Format(line: string): LogEntry | null {
+    // Parse RFC 3164 (PRI is optional, as written by rsyslog file outputs): <34>Jun 14 12:00:00 host app[1234]: Message
+    const match = line.match(/^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([^\s:[]+)(?:\[([^\]]+)\])?: ?(.*)$/)
+    if (!match) return null
+
+    const [, pri, timestamp, hostname, tag, procId, message] = match
+    const context: Record<string, unknown> = { hostname }
+    let level: LogLevel = 'info'
+    if (pri !== undefined) {
+      const decoded = decodeSyslogPriority(Number(pri))
+      context.facility = decoded.facility
+      context.severity = decoded.severity
+      level = decoded.level
+    }
+    if (procId) context.procid = procId
+
+    return {
+      timestamp,
+      level,
+      message: message.trim(),
+      source: tag,
+      context
+    }
+  }
+
+  private parseAccessLogFormat(line: string): LogEntry | null {
+    // Parse Common/Combined Log Format, optionally followed by nginx timing fields:
+    // 127.0.0.1 - - [14/Jun/2024:12:00:00 +0000] "GET /api/users HTTP/1.1" 500 512 "-" "curl/8.0" rt=0.120 urt="0.118" upstream=10.0.0.5:8080
+    const match = line.match(/^(\S+) \S+ \S+ \[([^\]]+)\] "(\S+) (\S+)(?: [^"]*)?" (\d{3}) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?(.*)$/)
+    if (!match) return null
+
+    const [, clientIp, timestamp, method, path, status, bytes, referer, userAgent, extras] = match
+    const fields: Record<string, string> = {}
+    for (const [, key, value] of extras.matchAll(/(\w+)=("[^"]*"|\S+)/g)) {
+      fields[key] = value.replace(/^"|"$/g, '')
+    }
+    const trailingSeconds = extras.trim().match(/^\d+\.\d+$/)?.[0]
+
+    return buildAccessLogEntry({
+      timestamp,
+      method,
+      path,
+      status: Number(status),
+      bytes: bytes === '-' ? undefined : Number(bytes),
+      latencyMs: secondsToMs(fields.rt || fields.request_time || trailingSeconds),
+      upstream: fields.upstream || fields.upstream_addr || fields.ua,
+      upstreamLatencyMs: secondsToMs(fields.urt || fields.upstream_response_time),
+      clientIp,
+      referer,
+      userAgent
+    }, 'http-access')
+  }
+
+  private parseNginxJSONAccessFormat(line: string): LogEntry | null {
+    // Parse nginx access logs written with escape=json log_format
+    const json = JSON.parse(line)
+    if (!json || typeof json !== 'object' || json.status === undefined) return null
+
+    const [requestMethod, requestUri] = typeof json.request === 'string' ? json.request.split(' ') : []
+    const method = json.request_method || json.method || requestMethod
+    const path = json.request_uri || json.uri || json.path || requestUri
+    if (!method || !path) return null
+
+    return buildAccessLogEntry({
+      timestamp: json.time_iso8601 || json.time_local || json.timestamp || json['@timestamp'] || json.time,
+      method,
+      path,
+      status: Number(json.status),
+      bytes: json.body_bytes_sent !== undefined ? Number(json.body_bytes_sent) : json.bytes_sent !== undefined ? Number(json.bytes_sent) : undefined,
+      latencyMs: secondsToMs(json.request_time),
+      upstream: json.upstream_addr || json.upstream,
+      upstreamLatencyMs: secondsToMs(json.upstream_response_time),
+      clientIp: json.remote_addr || json.client_ip,
+      referer: json.http_referer,
+      userAgent: json.http_user_agent || json.user_agent
+    }, 'nginx')
+  }
+
   private parseStandardFormat(line: string): LogEntry | null {
     // Parse: [2024-06-14 12:00:00] ERROR: Error message
     const match = line.match(/^\[([^\]]+)\]\s+(\w+):\s+(.+)$/)
@@ -79,7 +588,7 @@ export class LogParser {
     const [, timestamp, level, message] = match
     return {
       timestamp,
-      level: level.toLowerCase() as LogEntry['level'],
+      level: normalizeLogLevel(level),
       message: message.trim(),
       source: 'application'
     }
@@ -88,19 +597,55 @@ export class LogParser {
   private parseJSONFormat(line: string): LogEntry | null {
     try {
       const json = JSON.parse(line)
+      // Scalars and arrays are valid JSON but not log records
+      if (typeof json !== 'object' || json === null || Array.isArray(json)) return null
+      // Fields without a LogEntry property of their own (request ids, user ids, ...) are kept as context
+      const fields = Object.fromEntries(Object.entries(json).filter(([key]) => !JSON_ENTRY_FIELDS.has(key)))
+      const context = { ...fields, ...(json.context || json.meta) }
       return {
         timestamp: json.timestamp || json.time || json['@timestamp'],
-        level: (json.level || json.severity || 'info').toLowerCase(),
+        level: normalizeLogLevel(json.level ?? json.severity ?? json.levelname),
         message: json.message || json.msg || line,
         source: json.service || json.source || json.logger,
         stackTrace: json.stack || json.stackTrace,
-        context: json.context || json.meta
+        context: Object.keys(context).length > 0 ? context : undefined
       }
     } catch {
       return null
     }
   }
 
+  private parseLogfmtFormat(line: string): LogEntry | null {
+    // Parse logfmt, optionally behind a Heroku-style prefix:
+    // 2024-06-14T12:00:00+00:00 heroku[router]: at=error code=H12 desc="Request timeout" status=503
+    const prefix = line.match(/^(\S+) ([\w.-]+\[[\w.-]+\]): (.*)$/)
+    const pairs = parseLogfmt(prefix ? prefix[3] : line)
+    if (!pairs) return null
+
+    const take = (keys: string[]) => {
+      const key = keys.find(candidate => pairs[candidate] !== undefined && pairs[candidate] !== true)
+      if (!key) return undefined
+      const value = pairs[key]
+      delete pairs[key]
+      return String(value)
+    }
+
+    // Heroku uses at= for the level; only treat it as one when it names a level
+    const levelKey = ['level', 'lvl', 'severity', 'loglevel', 'at'].find(key => isKnownLogLevel(pairs[key]))
+    const level = levelKey ? take([levelKey]) : undefined
+
+    const entry: LogEntry = {
+      timestamp: take(['time', 'ts', 'timestamp', 't', '@timestamp']) || prefix?.[1] || '',
+      level: normalizeLogLevel(level),
+      message: take(['msg', 'message', 'desc']) || (prefix ? prefix[3] : line).trim(),
+      source: prefix?.[2] || take(['service', 'source', 'logger', 'component', 'app']),
+      stackTrace: take(['stack', 'stacktrace', 'stack_trace'])
+    }
+    if (Object.keys(pairs).length > 0) entry.context = pairs
+
+    return entry
+  }
+
   private parseNginxFormat(line: string): LogEntry | null {
     // Parse Nginx error log format
     const match = line.match(/^(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}) \[(\w+)\] (.+)$/)
@@ -109,7 +654,7 @@ export class LogParser {
     const [, timestamp, level, message] = match
     return {
       timestamp,
-      level: level.toLowerCase() as LogEntry['level'],
+      level: normalizeLogLevel(level),
       message: message.trim(),
       source: 'nginx'
     }
@@ -123,7 +668,7 @@ export class LogParser {
     const [, timestamp, level, message] = match
     return {
       timestamp,
-      level: level.toLowerCase() as LogEntry['level'],
+      level: normalizeLogLevel(level),
       message: message.trim(),
       source: 'apache'
     }
@@ -137,55 +682,9 @@ export class LogParser {
     const [, timestamp, level, message] = match
     return {
       timestamp,
-      level: level.toLowerCase() as LogEntry['level'],
+      level: normalizeLogLevel(level),
       message: message.trim(),
       source: 'application'
     }
   }
-
-  private generateSampleEntries(): LogEntry[] {
-    return [
-      {
-        timestamp: '2024-06-14T12:00:00Z',
-        level: 'error',
-        message: 'Database connection failed: Connection timeout after 30s',
-        source: 'database',
-        stackTrace: 'at Database.connect (database.js:45)\n    at UserService.getUser (user-service.js:23)',
-        context: { connectionString: 'postgresql://localhost:5432/app', timeout: 30000 }
-      },
-      {
-        timestamp: '2024-06-14T12:00:05Z',
-        level: 'error',
-        message: 'Failed to process user request: User not found',
-        source: 'api',
-        context: { userId: '12345', endpoint: '/api/users/12345' }
-      },
-      {
-        timestamp: '2024-06-14T12:00:10Z',
-        level: 'warn',
-        message: 'High memory usage detected: 85% of available memory in use',
-        source: 'system',
-        context: { memoryUsage: 0.85, threshold: 0.8 }
-      }
-    ]
-  }
-
-  extractErrorPatterns(entries: LogEntry[]): string[] {
-    const patterns = new Set<string>()
-    
-    entries.filter(e => e.level === 'error').forEach(entry => {
-      // Extract common error patterns
-      const message = entry.message.toLowerCase()
-      
-      if (message.includes('connection')) patterns.add('connection_errors')
-      if (message.includes('timeout')) patterns.add('timeout_errors')
-      if (message.includes('not found')) patterns.add('not_found_errors')
-      if (message.includes('permission') || message.includes('unauthorized')) patterns.add('auth_errors')
-      if (message.includes('memory') || message.includes('out of memory')) patterns.add('memory_errors')
-      if (message.includes('disk') || message.includes('space')) patterns.add('disk_errors')
-      if (message.includes('network')) patterns.add('network_errors')
-    })
-
-    return Array.from(patterns)
-  }
 }
@@ -0,0 +1,215 @@
+import { LogCluster, LogEntry, StackFrame } from '@/types'
+import { getLogLevelRank, isErrorLevel } from './log-levels'
+
+export interface TemplateMinerOptions {
+  // Leading tokens used to route a message through the parse tree
+  depth: number
+  // Share of a template's tokens a message must match to join its cluster
+  similarityThreshold: number
+  // Children per tree node before further tokens are routed through the wildcard branch
+  maxChildren: number
+  // Messages that fit no existing cluster once this many exist are only counted
+  maxClusters: number
+  maxExamples: number
+  maxSources: number
+}
+
+export const DEFAULT_TEMPLATE_MINER_OPTIONS: TemplateMinerOptions = {
+  depth: 4,
+  similarityThreshold: 0.5,
+  maxChildren: 100,
+  maxClusters: 1000,
+  maxExamples: 3,
+  maxSources: 10
+}
+
+const WILDCARD = '<*>'
+
+// Variable parts are masked before tokenizing so they never split a cluster
+const MASKS: [RegExp, string][] = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<TIME>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<UUID>'],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d{1,5})?\b/g, '<IP>'],
+  [/\b(?:[0-9a-f]{1,4}:){3,7}[0-9a-f]{1,4}\b/gi, '<IP>'],
+  [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, '<EMAIL>'],
+  [/\b0x[0-9a-f]+\b/gi, '<HEX>'],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<HEX>'],
+  [/(?<![\w.])-?\d+(?:\.\d+)?(?:ms|us|ns|s|m|h|d|b|kb|mb|gb|%)?\b/gi, '<NUM>']
+]
+
+interface Cluster {
+  tokens: string[]
+  count: number
+  errorCount: number
+  level: LogEntry['level']
+  firstSeen: number
+  lastSeen: number
+  sources: Set<string>
+  examples: string[]
+  exampleContext?: Record<string, unknown>
+  stackTrace?: string
+  stackFrames?: StackFrame[]
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>
+  // Ids of the clusters in this leaf
+  clusters: number[]
+}
+
+function createNode(): TreeNode {
+  return { children: new Map(), clusters: [] }
+}
+
+function maskMessage(message: string): string {
+  return MASKS.reduce((masked, [pattern, replacement]) => masked.replace(pattern, replacement), message)
+}
+
+function fingerprintTemplate(template: string): string {
+  // FNV-1a, so the same template always gets the same short id
+  let hash = 0x811c9dc5
+  for (let index = 0; index < template.length; index++) {
+    hash ^= template.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+// Drain-style online clustering (He et al., 2017): messages are routed by token count and their
+// first few tokens, then join the most similar template in that leaf, generalizing differing tokens
+export class LogTemplateMiner {
+  private options: TemplateMinerOptions
+  private root = createNode()
+  private clusters: Cluster[] = []
+
+  constructor(options: Partial<TemplateMinerOptions> = {}) {
+    this.options = { ...DEFAULT_TEMPLATE_MINER_OPTIONS, ...options }
+  }
+
+  // time is the entry's epoch milliseconds, NaN when it had no timestamp.
+  // Returns the id of the cluster the entry joined, if any.
+  add(entry: LogEntry, time: number): number | undefined {
+    const tokens = maskMessage(entry.message).split(/\s+/).filter(Boolean)
+    if (tokens.length === 0) return undefined
+
+    const leaf = this.findLeaf(tokens)
+    let id = this.findCluster(leaf.clusters, tokens)
+    let cluster = id !== undefined ? this.clusters[id] : undefined
+    if (cluster) {
+      cluster.tokens = cluster.tokens.map((token, index) => token === tokens[index] ? token : WILDCARD)
+    } else if (this.clusters.length < this.options.maxClusters) {
+      cluster = {
+        tokens,
+        count: 0,
+        errorCount: 0,
+        level: entry.level,
+        firstSeen: Infinity,
+        lastSeen: -Infinity,
+        sources: new Set(),
+        examples: []
+      }
+      id = this.clusters.push(cluster) - 1
+      leaf.clusters.push(id)
+    } else {
+      return undefined
+    }
+
+    cluster.count++
+    if (isErrorLevel(entry.level)) cluster.errorCount++
+    if (getLogLevelRank(entry.level) < getLogLevelRank(cluster.level)) cluster.level = entry.level
+    if (!isNaN(time)) {
+      cluster.firstSeen = Math.min(cluster.firstSeen, time)
+      cluster.lastSeen = Math.max(cluster.lastSeen, time)
+    }
+    if (entry.source && cluster.sources.size < this.options.maxSources) cluster.sources.add(entry.source)
+    if (cluster.examples.length < this.options.maxExamples && !cluster.examples.includes(entry.message)) {
+      cluster.examples.push(entry.message)
+    }
+    cluster.exampleContext = cluster.exampleContext || entry.context
+    if (!cluster.stackTrace && entry.stackTrace) {
+      cluster.stackTrace = entry.stackTrace
+      cluster.stackFrames = entry.stackFrames
+    }
+    return id
+  }
+
+  getCluster(id: number): LogCluster {
+    const cluster = this.clusters[id]
+    const template = cluster.tokens.join(' ')
+    const hasTimes = cluster.firstSeen !== Infinity
+
+    return {
+      fingerprint: fingerprintTemplate(template),
+      template,
+      count: cluster.count,
+      errorCount: cluster.errorCount,
+      level: cluster.level,
+      firstSeen: hasTimes ? new Date(cluster.firstSeen).toISOString() : undefined,
+      lastSeen: hasTimes ? new Date(cluster.lastSeen).toISOString() : undefined,
+      sources: Array.from(cluster.sources),
+      examples: cluster.examples,
+      exampleContext: cluster.exampleContext,
+      stackTrace: cluster.stackTrace,
+      stackFrames: cluster.stackFrames
+    }
+  }
+
+  // Most severe first, then by how often the cluster occurred
+  getClusters(): LogCluster[] {
+    return this.clusters
+      .map((_, id) => this.getCluster(id))
+      .sort((a, b) => getLogLevelRank(a.level) - getLogLevelRank(b.level) || b.errorCount - a.errorCount || b.count - a.count)
+  }
+
+  private findLeaf(tokens: string[]): TreeNode {
+    let node = this.getChild(this.root, String(tokens.length))
+    const routingTokens = tokens.slice(0, this.options.depth - 2)
+
+    for (const token of routingTokens) {
+      // Tokens that still contain digits are probably variables, so they share the wildcard branch
+      const key = /\d/.test(token) ? WILDCARD : token
+      const full = !node.children.has(key) && node.children.size >= this.options.maxChildren
+      node = this.getChild(node, full ? WILDCARD : key)
+    }
+
+    return node
+  }
+
+  private getChild(node: TreeNode, key: string): TreeNode {
+    let child = node.children.get(key)
+    if (!child) {
+      child = createNode()
+      node.children.set(key, child)
+    }
+    return child
+  }
+
+  private findCluster(ids: number[], tokens: string[]): number | undefined {
+    let best: number | undefined
+    let bestSimilarity = -1
+    let bestWildcards = -1
+
+    ids.forEach(id => {
+      let matches = 0
+      let wildcards = 0
+      this.clusters[id].tokens.forEach((token, index) => {
+        if (token === WILDCARD) wildcards++
+        else if (token === tokens[index]) matches++
+      })
+
+      const similarity = matches / tokens.length
+      if (similarity > bestSimilarity || (similarity === bestSimilarity && wildcards > bestWildcards)) {
+        best = id
+        bestSimilarity = similarity
+        bestWildcards = wildcards
+      }
+    })
+
+    return best !== undefined && bestSimilarity >= this.options.similarityThreshold ? best : undefined
+  }
+}
+
+// Literal words of a template, without wildcards and masked variables
+export function getTemplateWords(template: string): string[] {
+  return template.split(' ').filter(token => !/^<[A-Z*]+>$/.test(token))
+}
@@ -0,0 +1,221 @@
+import { EndpointStats, LogEntry, ParsedLog } from '@/types'
+import { ErrorAnomalyDetector } from './anomaly-detector'
+import { FailureDetector } from './failure-detectors'
+import { getLogLevelRank, isErrorLevel } from './log-levels'
+import { LogTemplateMiner } from './log-template-miner'
+import { RequestCorrelator } from './request-correlator'
+
+export interface SamplingLimits {
+  // Fatal and error entries are all kept until this cap is reached
+  maxErrorEntries: number
+  // Every other level shares a reservoir sample of this size
+  maxOtherEntries: number
+  // Latencies kept per endpoint for the p95 estimate
+  maxLatencySamples: number
+  // Message templates tracked across the whole upload
+  maxTemplateClusters: number
+}
+
+// Keeps memory bounded for multi-gigabyte uploads
+export const DEFAULT_SAMPLING_LIMITS: SamplingLimits = {
+  maxErrorEntries: 5000,
+  maxOtherEntries: 2000,
+  maxLatencySamples: 1000,
+  maxTemplateClusters: 1000
+}
+
+const UNBOUNDED_LIMITS: SamplingLimits = {
+  maxErrorEntries: Infinity,
+  maxOtherEntries: Infinity,
+  maxLatencySamples: Infinity,
+  maxTemplateClusters: Infinity
+}
+
+interface RetainedEntry {
+  entry: LogEntry
+  // Sort key; entries without a timestamp inherit the previous entry's time in their file
+  time: number
+  sequence: number
+  clusterId?: number
+}
+
+interface EndpointAccumulator {
+  endpoint: string
+  requests: number
+  serverErrors: number
+  clientErrors: number
+  latencies: number[]
+  latencyCount: number
+}
+
+function normalizeEndpointPath(path: string): string {
+  return path
+    .split('?')[0]
+    .replace(/\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi, '/:id')
+    .replace(/\/\d+(?=\/|$)/g, '/:id')
+    .replace(/\/[0-9a-f]{16,}(?=\/|$)/gi, '/:id')
+}
+
+function reservoirAdd<T>(reservoir: T[], item: T, seen: number, capacity: number) {
+  // Algorithm R: after n items every item has a capacity/n chance of being retained
+  if (reservoir.length < capacity) {
+    reservoir.push(item)
+    return
+  }
+
+  const slot = Math.floor(Math.random() * seen)
+  if (slot < capacity) reservoir[slot] = item
+}
+
+export class ParsedLogBuilder {
+  private limits: SamplingLimits
+  private errorEntries: RetainedEntry[] = []
+  private otherEntries: RetainedEntry[] = []
+  private endpoints: Map<string, EndpointAccumulator> = new Map()
+  private templateMiner: LogTemplateMiner
+  private anomalyDetector = new ErrorAnomalyDetector()
+  private requestCorrelator = new RequestCorrelator()
+  private sources = new Set<string>()
+  private totalEntries = 0
+  private fatalCount = 0
+  private errorCount = 0
+  private warnCount = 0
+  private otherCount = 0
+  private droppedErrors = 0
+  private startTime = Infinity
+  private endTime = -Infinity
+  private previousTime = -Infinity
+
+  constructor(limits: Partial<SamplingLimits> = {}, private failureDetector: FailureDetector = new FailureDetector()) {
+    this.limits = { ...UNBOUNDED_LIMITS, ...limits }
+    this.templateMiner = new LogTemplateMiner({ maxClusters: this.limits.maxTemplateClusters })
+  }
+
+  beginFile() {
+    this.previousTime = -Infinity
+  }
+
+  add(entry: LogEntry) {
+    const sequence = this.totalEntries++
+    const parsedTime = Date.parse(entry.timestamp)
+    if (!isNaN(parsedTime)) {
+      this.previousTime = parsedTime
+      this.startTime = Math.min(this.startTime, parsedTime)
+      this.endTime = Math.max(this.endTime, parsedTime)
+    }
+
+    if (entry.level === 'fatal') this.fatalCount++
+    if (isErrorLevel(entry.level)) this.errorCount++
+    if (entry.level === 'warn') this.warnCount++
+    if (entry.source) this.sources.add(entry.source)
+    this.addEndpointStats(entry)
+    const clusterId = this.templateMiner.add(entry, parsedTime)
+    this.anomalyDetector.add(entry, parsedTime, clusterId)
+    this.requestCorrelator.add(entry, this.previousTime)
+    this.failureDetector.add(entry)
+
+    const retained = { entry, time: this.previousTime, sequence, clusterId }
+    if (isErrorLevel(entry.level)) {
+      this.retainError(retained)
+    } else {
+      this.otherCount++
+      reservoirAdd(this.otherEntries, retained, this.otherCount, this.limits.maxOtherEntries)
+    }
+  }
+
+  build(): ParsedLog {
+    // Templates keep generalizing while entries arrive, so fingerprints are only final now
+    const fingerprints = new Map<number, string>()
+    const entries = [...this.errorEntries, ...this.otherEntries]
+      .sort((a, b) => a.time - b.time || a.sequence - b.sequence)
+      .map(({ entry, clusterId }) => {
+        if (clusterId !== undefined) {
+          if (!fingerprints.has(clusterId)) fingerprints.set(clusterId, this.templateMiner.getCluster(clusterId).fingerprint)
+          entry.fingerprint = fingerprints.get(clusterId)
+        }
+        return entry
+      })
+    const hasTimes = this.startTime !== Infinity
+
+    return {
+      entries,
+      totalEntries: this.totalEntries,
+      fatalCount: this.fatalCount,
+      errorCount: this.errorCount,
+      warnCount: this.warnCount,
+      timeRange: {
+        start: hasTimes ? new Date(this.startTime) : new Date(),
+        end: hasTimes ? new Date(this.endTime) : new Date()
+      },
+      sources: Array.from(this.sources),
+      endpointStats: this.buildEndpointStats(),
+      clusters: this.templateMiner.getClusters(),
+      anomalies: this.anomalyDetector.detect(clusterId => this.templateMiner.getCluster(clusterId)),
+      requestChains: this.requestCorrelator.build(),
+      findings: this.failureDetector.getFindings(),
+      sampling: entries.length < this.totalEntries
+        ? {
+          retainedEntries: entries.length,
+          droppedErrors: this.droppedErrors,
+          sampledOtherEntries: this.otherEntries.length
+        }
+        : undefined
+    }
+  }
+
+  private retainError(retained: RetainedEntry) {
+    if (this.errorEntries.length < this.limits.maxErrorEntries) {
+      this.errorEntries.push(retained)
+      return
+    }
+
+    // Once the cap is reached a fatal entry still displaces the latest plain error
+    this.droppedErrors++
+    if (retained.entry.level !== 'fatal') return
+    for (let index = this.errorEntries.length - 1; index >= 0; index--) {
+      if (getLogLevelRank(this.errorEntries[index].entry.level) > getLogLevelRank('fatal')) {
+        this.errorEntries[index] = retained
+        return
+      }
+    }
+  }
+
+  private addEndpointStats(entry: LogEntry) {
+    const { method, path, status, latencyMs } = entry.context || {}
+    if (typeof method !== 'string' || typeof path !== 'string' || typeof status !== 'number') return
+
+    const endpoint = `${method} ${normalizeEndpointPath(path)}`
+    const stats = this.endpoints.get(endpoint) || {
+      endpoint,
+      requests: 0,
+      serverErrors: 0,
+      clientErrors: 0,
+      latencies: [],
+      latencyCount: 0
+    }
+    stats.requests++
+    if (status >= 500) stats.serverErrors++
+    else if (status >= 400) stats.clientErrors++
+    if (typeof latencyMs === 'number') {
+      stats.latencyCount++
+      reservoirAdd(stats.latencies, latencyMs, stats.latencyCount, this.limits.maxLatencySamples)
+    }
+    this.endpoints.set(endpoint, stats)
+  }
+
+  private buildEndpointStats(): EndpointStats[] {
+    return Array.from(this.endpoints.values())
+      .map(({ endpoint, requests, serverErrors, clientErrors, latencies }) => {
+        const sorted = [...latencies].sort((a, b) => a - b)
+        return {
+          endpoint,
+          requests,
+          serverErrors,
+          clientErrors,
+          errorRate: serverErrors / requests,
+          p95LatencyMs: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : undefined
+        }
+      })
+      .sort((a, b) => b.serverErrors - a.serverErrors || b.errorRate - a.errorRate || b.requests - a.requests)
+  }
+}
@@ -0,0 +1,54 @@
+import { randomUUID } from 'crypto'
+import { ParsedLog } from '@/types'
+
+export interface ParsedLogCacheLimits {
+  maxUploads: number
+  ttlMs: number
+}
+
+export const DEFAULT_PARSED_LOG_CACHE_LIMITS: ParsedLogCacheLimits = {
+  maxUploads: 10,
+  ttlMs: 30 * 60 * 1000
+}
+
+interface CachedLogs {
+  logs: ParsedLog
+  expiresAt: number
+}
+
+// Keeps the parsed logs of recent uploads so follow-up questions don't send and parse the files again.
+// Entries live in this process only; a client whose id is unknown uploads the files again.
+export class ParsedLogCache {
+  private uploads = new Map<string, CachedLogs>()
+
+  constructor(private limits: ParsedLogCacheLimits = DEFAULT_PARSED_LOG_CACHE_LIMITS) {}
+
+  add(logs: ParsedLog): string {
+    this.removeExpired()
+    const id = randomUUID()
+    this.uploads.set(id, { logs, expiresAt: Date.now() + this.limits.ttlMs })
+
+    // Maps keep insertion order and get() re-inserts, so the first key is the least recently used
+    while (this.uploads.size > this.limits.maxUploads) {
+      this.uploads.delete(this.uploads.keys().next().value as string)
+    }
+    return id
+  }
+
+  get(id: string): ParsedLog | null {
+    this.removeExpired()
+    const cached = this.uploads.get(id)
+    if (!cached) return null
+
+    this.uploads.delete(id)
+    this.uploads.set(id, { logs: cached.logs, expiresAt: Date.now() + this.limits.ttlMs })
+    return cached.logs
+  }
+
+  private removeExpired() {
+    const now = Date.now()
+    this.uploads.forEach((cached, id) => {
+      if (cached.expiresAt <= now) this.uploads.delete(id)
+    })
+  }
+}
@@ -0,0 +1,233 @@
+import { CorrelationId, LogEntry, RequestChain } from '@/types'
+import { getLogLevelRank, isErrorLevel } from './log-levels'
+
+export interface CorrelationLimits {
+  // Chains tracked at once; the oldest error-free chain is dropped to make room
+  maxTrackedChains: number
+  // Entries kept per chain, the rest are only counted
+  maxChainEntries: number
+  // Chains returned by build()
+  maxReportedChains: number
+}
+
+export const DEFAULT_CORRELATION_LIMITS: CorrelationLimits = {
+  maxTrackedChains: 5000,
+  maxChainEntries: 20,
+  maxReportedChains: 50
+}
+
+// Field names are compared lowercased with separators removed, so trace_id, traceId and X-Trace-Id all match
+const CORRELATION_FIELDS: Record<string, CorrelationId['kind']> = {
+  traceid: 'trace',
+  xtraceid: 'trace',
+  xbtraceid: 'trace',
+  xamzntraceid: 'trace',
+  ddtraceid: 'trace',
+  requestid: 'request',
+  xrequestid: 'request',
+  reqid: 'request',
+  correlationid: 'request',
+  xcorrelationid: 'request',
+  spanid: 'span',
+  xbspanid: 'span',
+  ddspanid: 'span',
+  userid: 'user',
+  xuserid: 'user'
+}
+
+// key=value, key: value and "key":"value" mentions inside free-text messages
+const MESSAGE_ID_PATTERN = /\b((?:x-)?(?:trace|request|req|correlation|span|user)[_-]?id)"?\s*[=:]\s*"?([\w.:/+-]{1,128})/gi
+
+// W3C trace context: traceparent: 00-<trace id>-<span id>-<flags>
+const TRACEPARENT_PATTERN = /\b[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}\b/i
+
+const PLACEHOLDER_VALUES = new Set(['', '-', '0', 'null', 'undefined', 'none', 'nil', 'unknown', 'n/a'])
+
+interface ChainAccumulator {
+  // Trace, request and span ids link entries into one chain; user ids only describe it
+  ids: Map<string, CorrelationId>
+  entries: { entry: LogEntry, time: number, sequence: number }[]
+  entryCount: number
+  errorCount: number
+  sources: Set<string>
+  files: Set<string>
+  startTime: number
+  endTime: number
+}
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function addId(ids: Map<string, CorrelationId>, kind: CorrelationId['kind'], value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number') return
+  const text = String(value).trim()
+  if (PLACEHOLDER_VALUES.has(text.toLowerCase()) || text.length > 128) return
+  ids.set(`${kind}:${text}`, { kind, value: text })
+}
+
+function extractCorrelationIds(entry: LogEntry): CorrelationId[] {
+  const ids = new Map<string, CorrelationId>()
+
+  const visit = (fields: Record<string, unknown>, depth: number) => {
+    Object.entries(fields).forEach(([name, value]) => {
+      const field = normalizeFieldName(name)
+      if (field === 'traceparent' && typeof value === 'string') {
+        const traceparent = value.match(TRACEPARENT_PATTERN)
+        if (traceparent) addId(ids, 'trace', traceparent[1])
+      } else if (CORRELATION_FIELDS[field]) {
+        addId(ids, CORRELATION_FIELDS[field], value)
+      } else if (depth === 0 && value && typeof value === 'object' && !Array.isArray(value)) {
+        // One level down covers nested headers and MDC maps
+        visit(value as Record<string, unknown>, depth + 1)
+      }
+    })
+  }
+  if (entry.context) visit(entry.context, 0)
+
+  for (const [, name, value] of entry.message.matchAll(MESSAGE_ID_PATTERN)) {
+    const kind = CORRELATION_FIELDS[normalizeFieldName(name)]
+    if (kind) addId(ids, kind, value.replace(/[.,;:)]+$/, ''))
+  }
+  const traceparent = entry.message.match(TRACEPARENT_PATTERN)
+  if (traceparent) addId(ids, 'trace', traceparent[1])
+
+  return Array.from(ids.values())
+}
+
+// Groups entries that share trace, request or span ids into request chains across files and services.
+// A gateway line with a request id and an API line with the same request id plus a trace id end up in
+// one chain together with the database lines that only carry the trace id.
+export class RequestCorrelator {
+  private limits: CorrelationLimits
+  // Linking id ("kind:value") -> chain; chains are kept in creation order for eviction
+  private index = new Map<string, ChainAccumulator>()
+  private chains = new Set<ChainAccumulator>()
+  private sequence = 0
+
+  constructor(limits: Partial<CorrelationLimits> = {}) {
+    this.limits = { ...DEFAULT_CORRELATION_LIMITS, ...limits }
+  }
+
+  // time is the entry's sort key in epoch milliseconds
+  add(entry: LogEntry, time: number) {
+    const ids = extractCorrelationIds(entry)
+    const linking = ids.filter(id => id.kind !== 'user').map(id => `${id.kind}:${id.value}`)
+    if (linking.length === 0) return
+
+    const matched = Array.from(new Set(linking.map(key => this.index.get(key)).filter(Boolean))) as ChainAccumulator[]
+    const chain = matched.length > 0 ? matched.reduce((largest, other) => this.merge(largest, other)) : this.createChain()
+
+    ids.forEach(id => {
+      const key = `${id.kind}:${id.value}`
+      chain.ids.set(key, id)
+      if (id.kind !== 'user') this.index.set(key, chain)
+    })
+
+    chain.entryCount++
+    if (isErrorLevel(entry.level)) chain.errorCount++
+    if (entry.source) chain.sources.add(entry.source)
+    if (typeof entry.context?.file === 'string') chain.files.add(entry.context.file)
+    if (!isNaN(time) && time !== -Infinity) {
+      chain.startTime = Math.min(chain.startTime, time)
+      chain.endTime = Math.max(chain.endTime, time)
+    }
+    this.retain(chain, { entry, time, sequence: this.sequence++ })
+  }
+
+  // Chains with more than one entry, failing and most widely spread first
+  build(): RequestChain[] {
+    return Array.from(this.chains)
+      .filter(chain => chain.entryCount > 1)
+      .sort((a, b) => b.errorCount - a.errorCount || b.sources.size - a.sources.size || b.entryCount - a.entryCount)
+      .slice(0, this.limits.maxReportedChains)
+      .map(chain => {
+        const hasTimes = chain.startTime !== Infinity
+        return {
+          ids: Array.from(chain.ids.values()),
+          entries: [...chain.entries]
+            .sort((a, b) => a.time - b.time || a.sequence - b.sequence)
+            .map(({ entry }) => entry),
+          entryCount: chain.entryCount,
+          errorCount: chain.errorCount,
+          sources: Array.from(chain.sources),
+          files: Array.from(chain.files),
+          start: hasTimes ? new Date(chain.startTime).toISOString() : undefined,
+          end: hasTimes ? new Date(chain.endTime).toISOString() : undefined,
+          durationMs: hasTimes ? chain.endTime - chain.startTime : undefined
+        }
+      })
+  }
+
+  private createChain(): ChainAccumulator {
+    if (this.chains.size >= this.limits.maxTrackedChains) this.evict()
+
+    const chain: ChainAccumulator = {
+      ids: new Map(),
+      entries: [],
+      entryCount: 0,
+      errorCount: 0,
+      sources: new Set(),
+      files: new Set(),
+      startTime: Infinity,
+      endTime: -Infinity
+    }
+    this.chains.add(chain)
+    return chain
+  }
+
+  private merge(target: ChainAccumulator, other: ChainAccumulator): ChainAccumulator {
+    if (target === other) return target
+    if (other.entryCount > target.entryCount) return this.merge(other, target)
+
+    other.ids.forEach((id, key) => {
+      target.ids.set(key, id)
+      if (id.kind !== 'user') this.index.set(key, target)
+    })
+    other.entries.forEach(retained => this.retain(target, retained))
+    target.entryCount += other.entryCount
+    target.errorCount += other.errorCount
+    other.sources.forEach(source => target.sources.add(source))
+    other.files.forEach(file => target.files.add(file))
+    target.startTime = Math.min(target.startTime, other.startTime)
+    target.endTime = Math.max(target.endTime, other.endTime)
+    this.chains.delete(other)
+    return target
+  }
+
+  private retain(chain: ChainAccumulator, retained: ChainAccumulator['entries'][number]) {
+    if (chain.entries.length < this.limits.maxChainEntries) {
+      chain.entries.push(retained)
+      return
+    }
+
+    // A full chain still makes room for an error by dropping its least severe entry
+    let weakest = 0
+    chain.entries.forEach((candidate, index) => {
+      if (getLogLevelRank(candidate.entry.level) > getLogLevelRank(chain.entries[weakest].entry.level)) weakest = index
+    })
+    if (getLogLevelRank(retained.entry.level) < getLogLevelRank(chain.entries[weakest].entry.level)) {
+      chain.entries[weakest] = retained
+    }
+  }
+
+  private evict() {
+    // Sets iterate in insertion order, so this finds the oldest chain, preferring ones without errors
+    let oldest: ChainAccumulator | undefined
+    let checked = 0
+    for (const chain of this.chains) {
+      oldest = oldest || chain
+      if (chain.errorCount === 0) {
+        oldest = chain
+        break
+      }
+      if (++checked >= 100) break
+    }
+    if (!oldest) return
+
+    oldest.ids.forEach((id, key) => {
+      if (this.index.get(key) === oldest) this.index.delete(key)
+    })
+    this.chains.delete(oldest)
+  }
+}
@@ -0,0 +1,175 @@
+import { StackFrame } from '@/types'
+import { parseStackTrace } from './stack-frames'
+
+interface RawSourceMap {
+  version: number
+  file?: string
+  sourceRoot?: string
+  sources: (string | null)[]
+  names?: string[]
+  mappings: string
+  sections?: unknown[]
+}
+
+// [generated column, source index, original line, original column, name index], all zero-based
+type Segment = number[]
+
+interface LoadedSourceMap {
+  map: RawSourceMap
+  // Mappings are decoded on first lookup: one array per generated line, segments sorted by column
+  lines?: Segment[][]
+}
+
+const BASE64_VALUES = new Map(
+  Array.from('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/', (char, index) => [char, index])
+)
+
+export function isSourceMapFileName(fileName: string): boolean {
+  return /\.map$/i.test(fileName)
+}
+
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char)
+    if (digit === undefined) throw new Error(`Invalid character ${char} in source map mappings`)
+
+    value += (digit & 31) * 2 ** shift
+    if (digit & 32) {
+      shift += 5
+      continue
+    }
+    // The lowest bit is the sign
+    values.push(value % 2 === 1 ? -Math.floor(value / 2) : value / 2)
+    value = 0
+    shift = 0
+  }
+
+  return values
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  // Every field except the generated column is relative to the previous segment in the whole file
+  let source = 0
+  let originalLine = 0
+  let originalColumn = 0
+  let name = 0
+
+  return mappings.split(';').map(line => {
+    let column = 0
+    const segments: Segment[] = []
+
+    line.split(',').forEach(encoded => {
+      if (!encoded) return
+      const fields = decodeVLQ(encoded)
+      column += fields[0]
+      if (fields.length < 4) return
+
+      source += fields[1]
+      originalLine += fields[2]
+      originalColumn += fields[3]
+      if (fields.length >= 5) {
+        name += fields[4]
+        segments.push([column, source, originalLine, originalColumn, name])
+      } else {
+        segments.push([column, source, originalLine, originalColumn])
+      }
+    })
+
+    return segments.sort((a, b) => a[0] - b[0])
+  })
+}
+
+// webpack://app/./src/orders.ts -> src/orders.ts
+function normalizeSourcePath(source: string, sourceRoot = ''): string {
+  const path = /^[a-z][\w+.-]*:/i.test(source) || !sourceRoot ? source : `${sourceRoot.replace(/\/?$/, '/')}${source}`
+  return path
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^(?:file|vite|rollup):\/\/\/?/, '')
+    .replace(/^(?:\.\/|\.\.\/)+/, '')
+    .replace(/\/\.\//g, '/')
+}
+
+// Bundle file name a frame points at, without the URL, query string or hash
+function getBundleName(file: string): string {
+  return file.split(/[?#]/)[0].split('/').pop() || file
+}
+
+// Rewrites minified JavaScript stack frames to their original source file, line and symbol using
+// uploaded source maps. Maps are matched to frames by bundle file name, e.g. main.3f9a1c.js.map
+// for https://cdn.example.com/static/js/main.3f9a1c.js.
+export class SourceMapResolver {
+  private maps = new Map<string, LoadedSourceMap>()
+
+  get size(): number {
+    return this.maps.size
+  }
+
+  add(fileName: string, content: string) {
+    let map: RawSourceMap
+    try {
+      map = JSON.parse(content.replace(/^\)\]\}'[^\n]*\n/, ''))
+    } catch (error) {
+      throw new Error(`Invalid source map ${fileName}: ${error instanceof Error ? error.message : error}`)
+    }
+    if (map.sections) throw new Error(`Invalid source map ${fileName}: indexed source maps are not supported`)
+    if (map.version !== 3 || typeof map.mappings !== 'string' || !Array.isArray(map.sources)) {
+      throw new Error(`Invalid source map ${fileName}: expected a version 3 source map`)
+    }
+
+    const loaded: LoadedSourceMap = { map }
+    this.maps.set(getBundleName(fileName).replace(/\.map$/i, ''), loaded)
+    if (map.file) this.maps.set(getBundleName(map.file), loaded)
+  }
+
+  // Frames of the trace with minified ones rewritten, or undefined when no map applied to any of them
+  resolveStackTrace(stackTrace: string): StackFrame[] | undefined {
+    if (this.maps.size === 0) return undefined
+
+    const frames = parseStackTrace(stackTrace).map(frame => this.resolveFrame(frame))
+    return frames.some(frame => frame.generated) ? frames : undefined
+  }
+
+  resolveFrame(frame: StackFrame): StackFrame {
+    if ((frame.runtime !== 'node' && frame.runtime !== 'browser') || !frame.file || !frame.line || !frame.column) return frame
+
+    const loaded = this.maps.get(getBundleName(frame.file))
+    if (!loaded) return frame
+
+    loaded.lines = loaded.lines || decodeMappings(loaded.map.mappings)
+    const segments = loaded.lines[frame.line - 1] || []
+
+    // The last segment starting at or before the frame's column covers it
+    let low = 0
+    let high = segments.length - 1
+    let match: Segment | undefined
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (segments[middle][0] <= frame.column - 1) {
+        match = segments[middle]
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+
+    const source = match && loaded.map.sources[match[1]]
+    if (!match || !source) return frame
+
+    const file = normalizeSourcePath(source, loaded.map.sourceRoot)
+    return {
+      runtime: frame.runtime,
+      // Names in a map belong to the identifier at the position; without one the minified name is all there is
+      function: match[4] !== undefined ? loaded.map.names?.[match[4]] ?? frame.function : frame.function,
+      file,
+      line: match[2] + 1,
+      column: match[3] + 1,
+      module: file.match(/node_modules\/((?:@[^/]+\/)?[^/]+)/)?.[1],
+      inApp: !/node_modules|^webpack\/(bootstrap|runtime)/.test(file),
+      generated: frame
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import { StackFrame } from '@/types'
+
+// at com.example.OrderService.place(OrderService.java:42), at java.base/java.lang.Thread.run(Thread.java:829)
+const JVM_FRAME = /^\s*at (?:[\w.-]+\/)?((?:[\w$]+\.)*)([\w$]+)\.([\w$<>]+)\(([^():]+?)(?::(\d+))?\)$/
+
+// at Shop.Orders.OrderService.Place(Order order) in /src/Orders/OrderService.cs:line 42
+const DOTNET_FRAME = /^\s*at ((?:[\w`<>\[\],]+\.)*)([\w`<>\[\],|]+)\((.*?)\)(?: in (.+):line (\d+))?$/
+
+// at placeOrder (/app/src/orders.js:42:13), at async Promise.all (index 0), at /app/src/index.js:7:3
+const NODE_FRAME = /^\s*at (?:(?:async )?(.+?) \()?((?:[a-z][\w+.-]*:\/\/\/?|node:)?[^():]+(?::[^():]+)*?):(\d+):(\d+)\)?$/
+
+// placeOrder@https://cdn.example.com/static/js/main.3f9a1c.js:1:48213 (Firefox, Safari)
+const BROWSER_FRAME = /^\s*([^@\s]*)@((?:[a-z][\w+.-]*:\/\/)?[^@\s]+?):(\d+):(\d+)$/
+
+// File "/app/orders/service.py", line 42, in place_order
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?$/
+
+// /app/models/order.rb:42:in `place' and from /app/controllers/orders_controller.rb:7:in 'create'
+const RUBY_FRAME = /^\s*(?:from )?([^\s:]+\.rb):(\d+):in [`'](.+?)'/
+
+// Go frames span two lines: the function call, then the indented file:line
+const GO_FUNCTION = /^([\w./*()-]+)\(.*\)$/
+const GO_LOCATION = /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/
+
+const JVM_LIBRARY_PACKAGES = /^(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|org\.springframework|org\.apache|org\.hibernate|org\.eclipse|org\.glassfish|org\.postgresql|org\.slf4j|ch\.qos|io\.netty|io\.micrometer|reactor|com\.fasterxml|com\.zaxxer|com\.mysql|okhttp3|okio|net\.bytebuddy|jakarta|feign|io\.grpc|com\.google)\./
+
+const DOTNET_LIBRARY_NAMESPACES = /^(System|Microsoft|Npgsql|Newtonsoft|MySql|Oracle|Polly|Grpc|Dapper|StackExchange|Serilog|NLog|Castle|Autofac)\./
+
+function isNodeInApp(file: string): boolean {
+  return !/node_modules|^node:|^internal\/|^<anonymous>$|^native$/.test(file)
+}
+
+function nodeModuleOf(file: string): string | undefined {
+  const match = file.match(/node_modules\/((?:@[^/]+\/)?[^/]+)/g)
+  return match ? match[match.length - 1].replace('node_modules/', '') : undefined
+}
+
+function pythonModuleOf(file: string): string | undefined {
+  const match = file.match(/(?:site|dist)-packages\/([^/]+)/)
+  return match ? match[1].replace(/\.py$/, '') : undefined
+}
+
+function isPythonInApp(file: string): boolean {
+  return !/(site|dist)-packages|\/lib\/python\d[\d.]*\/|^<frozen |^<string>$/.test(file)
+}
+
+function isGoInApp(file: string, module: string): boolean {
+  return !/\/usr\/local\/go\/|\/go\/pkg\/mod\/|\/vendor\/|^\/usr\/lib\/go/.test(file) && !/^(runtime|net|sync|reflect|internal)(\/|$)/.test(module)
+}
+
+function isRubyInApp(file: string): boolean {
+  return !/\/gems\/|\/rubygems\/|\/ruby\/\d|^<internal:/.test(file)
+}
+
+function parseGoFunction(call: string): { module?: string, function: string } {
+  // github.com/acme/shop/orders.(*Service).Place -> module github.com/acme/shop/orders, function (*Service).Place
+  const lastSlash = call.lastIndexOf('/')
+  const dot = call.indexOf('.', lastSlash + 1)
+  return dot === -1 ? { function: call } : { module: call.slice(0, dot), function: call.slice(dot + 1) }
+}
+
+function parseDotnetFrame(match: RegExpMatchArray): StackFrame {
+  // Shop.Orders.OrderService.Place -> module Shop.Orders, function OrderService.Place, as for JVM frames
+  const parts = `${match[1]}${match[2]}`.split('.')
+  const namespace = parts.slice(0, -2).join('.')
+  return {
+    runtime: 'dotnet',
+    function: parts.slice(-2).join('.'),
+    file: match[4],
+    line: match[5] ? Number(match[5]) : undefined,
+    module: namespace || undefined,
+    inApp: !DOTNET_LIBRARY_NAMESPACES.test(parts.join('.'))
+  }
+}
+
+function parseLine(line: string): StackFrame | null {
+  const dotnet = line.match(DOTNET_FRAME)
+  if (dotnet && dotnet[4]) return parseDotnetFrame(dotnet)
+
+  const jvm = line.match(JVM_FRAME)
+  if (jvm && (/\.(java|kt|kts|scala|groovy|clj)$/.test(jvm[4]) || /^(Native Method|Unknown Source)$/.test(jvm[4]))) {
+    const packageName = jvm[1].replace(/\.$/, '')
+    return {
+      runtime: 'jvm',
+      function: `${jvm[2]}.${jvm[3]}`,
+      file: /\.\w+$/.test(jvm[4]) ? jvm[4] : undefined,
+      line: jvm[5] ? Number(jvm[5]) : undefined,
+      module: packageName || undefined,
+      inApp: !JVM_LIBRARY_PACKAGES.test(`${packageName}.`)
+    }
+  }
+
+  const node = line.match(NODE_FRAME)
+  if (node) {
+    const file = node[2].replace(/^file:\/\//, '')
+    return {
+      runtime: 'node',
+      function: node[1],
+      file,
+      line: Number(node[3]),
+      column: Number(node[4]),
+      module: nodeModuleOf(file),
+      inApp: isNodeInApp(file)
+    }
+  }
+
+  const browser = line.match(BROWSER_FRAME)
+  if (browser) {
+    return {
+      runtime: 'browser',
+      function: browser[1] || undefined,
+      file: browser[2],
+      line: Number(browser[3]),
+      column: Number(browser[4]),
+      module: nodeModuleOf(browser[2]),
+      inApp: isNodeInApp(browser[2]) && !/^(?:chrome|moz|safari(?:-web)?)-extension:/.test(browser[2])
+    }
+  }
+
+  // .NET frames without file information are still worth keeping for the call chain
+  if (dotnet) return parseDotnetFrame(dotnet)
+
+  const python = line.match(PYTHON_FRAME)
+  if (python) {
+    return {
+      runtime: 'python',
+      function: python[3],
+      file: python[1],
+      line: Number(python[2]),
+      module: pythonModuleOf(python[1]),
+      inApp: isPythonInApp(python[1])
+    }
+  }
+
+  const ruby = line.match(RUBY_FRAME)
+  if (ruby) {
+    return {
+      runtime: 'ruby',
+      function: ruby[3],
+      file: ruby[1],
+      line: Number(ruby[2]),
+      module: ruby[1].match(/\/gems\/([^/]+?)-\d[^/]*\//)?.[1],
+      inApp: isRubyInApp(ruby[1])
+    }
+  }
+
+  return null
+}
+
+// Parses Node/V8, browser, JVM, Python, Go, Ruby and .NET stack traces into frames, in the order they appear.
+// Python lists the innermost call last, every other runtime lists it first.
+export function parseStackTrace(stackTrace: string): StackFrame[] {
+  const frames: StackFrame[] = []
+  const lines = stackTrace.split('\n')
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+
+    const goFunction = line.match(GO_FUNCTION)
+    const goLocation = goFunction && lines[index + 1]?.match(GO_LOCATION)
+    if (goFunction && goLocation) {
+      const { module, function: name } = parseGoFunction(goFunction[1])
+      frames.push({
+        runtime: 'go',
+        function: name,
+        file: goLocation[1],
+        line: Number(goLocation[2]),
+        module,
+        inApp: isGoInApp(goLocation[1], module || '')
+      })
+      index++
+      continue
+    }
+
+    const frame = parseLine(line)
+    if (frame) frames.push(frame)
+  }
+
+  return frames
+}
+
+// In-app frames with a file and line, innermost call first and without repeats
+export function getInAppFrames(frames: StackFrame[]): StackFrame[] {
+  const ordered = frames.length > 0 && frames[0].runtime === 'python' ? [...frames].reverse() : frames
+  const seen = new Set<string>()
+  return ordered.filter(frame => {
+    if (!frame.inApp || !frame.file || !frame.line) return false
+    const key = `${frame.file}:${frame.line}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+export function formatStackFrame(frame: StackFrame): string {
+  const location = frame.file ? `${frame.file}${frame.line ? `:${frame.line}` : ''}${frame.column ? `:${frame.column}` : ''}` : 'unknown location'
+  return frame.function ? `${frame.function} (${location})` : location
+}
+
+// Repository paths a frame's file may live at. Traces carry deployment paths such as /app/src/orders.js
+// or only a file name (JVM), so leading directories are dropped or the package path is rebuilt.
+export function getSourcePathCandidates(frame: StackFrame): string[] {
+  if (!frame.file) return []
+
+  const file = frame.file
+    .replace(/\\/g, '/')
+    .replace(/^(?:file|webpack):\/\/\/?/, '')
+    .replace(/^[A-Za-z]:\//, '')
+    .replace(/^\/+/, '')
+
+  if (frame.runtime === 'jvm' && !file.includes('/')) {
+    const packagePath = frame.module ? `${frame.module.replace(/\./g, '/')}/${file}` : file
+    const sourceRoot = file.endsWith('.kt') ? 'src/main/kotlin' : 'src/main/java'
+    return [`${sourceRoot}/${packagePath}`, packagePath]
+  }
+
+  const segments = file.split('/')
+  return Array.from({ length: Math.min(3, segments.length) }, (_, index) => segments.slice(index).join('/'))
+}
@@ -0,0 +1,64 @@
+import { ZodError } from 'zod'
+
+// Raised when a model response still fails schema validation after the repair and retry passes
+export class StructuredOutputError extends Error {
+  constructor(message: string, public attempts: number, public text?: string) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+// Index just past the JSON object or array starting at `start`, or -1 when it never closes
+function findValueEnd(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let index = start; index < text.length; index++) {
+    const char = text[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') inString = true
+    else if (char === '{' || char === '[') depth++
+    else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) return index + 1
+    }
+  }
+  return -1
+}
+
+// Salvages JSON a model wrapped in prose or code fences: takes the first complete object or array
+// and drops trailing commas. Returns null when there is nothing to salvage.
+export function repairJsonText(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?\s*([\s\S]*?)```/i, '$1')
+  const start = unfenced.search(/[{[]/)
+  if (start === -1) return null
+
+  const end = findValueEnd(unfenced, start)
+  if (end === -1) return null
+
+  const candidate = unfenced.slice(start, end).replace(/,(\s*[}\]])/g, '$1')
+  try {
+    JSON.parse(candidate)
+    return candidate
+  } catch {
+    return null
+  }
+}
+
+// Short description of why a response failed, for the retry prompt and the analysis result
+export function describeValidationError(error: unknown): string {
+  // The schema issues sit at the bottom of the ai package's error chain
+  let cause = error
+  while (cause instanceof Error && !(cause instanceof ZodError) && cause.cause) cause = cause.cause
+  if (cause instanceof ZodError) {
+    return cause.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ')
+  }
+  return error instanceof Error ? error.message : String(error)
+}
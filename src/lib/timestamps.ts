@@ -0,0 +1,168 @@
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+interface TimestampParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  millisecond: number
+  offsetMinutes?: number
+}
+
+export function normalizeTimestamp(value: unknown, timezone?: string): string | null {
+  if (value === undefined || value === null || value === '') return null
+
+  const epoch = parseEpoch(value)
+  if (epoch !== null) return toISOString(epoch)
+
+  const raw = String(value).trim()
+  const parts = parseTimestampParts(raw)
+  if (!parts) {
+    const parsed = Date.parse(raw)
+    return isNaN(parsed) ? null : toISOString(parsed)
+  }
+
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond)
+  if (parts.offsetMinutes !== undefined) {
+    return toISOString(wallClock - parts.offsetMinutes * 60000)
+  }
+
+  return toISOString(wallClockToUTC(wallClock, timezone))
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  if (parseOffset(timezone) !== null) return true
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function toISOString(milliseconds: number): string | null {
+  const date = new Date(milliseconds)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function parseEpoch(value: unknown): number | null {
+  // Epoch seconds, milliseconds, microseconds or nanoseconds, told apart by magnitude
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : ''
+  const match = text.match(/^(\d{9,19})(?:\.(\d+))?$/)
+  if (!match) return null
+
+  const [, integer, fraction = '0'] = match
+  const digits = integer.length
+  const number = Number(`${integer}.${fraction}`)
+  if (digits <= 11) return number * 1000
+  if (digits <= 14) return number
+  if (digits <= 17) return number / 1000
+  return number / 1000000
+}
+
+function parseTimestampParts(raw: string): TimestampParts | null {
+  // ISO 8601 and variants: 2024-06-14T12:00:00.123Z, 2024-06-14 12:00:00,123, nginx 2024/06/14 12:00:00
+  let match = raw.match(/^(\d{4})[-/](\d{2})[-/](\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?)?$/i)
+  if (match) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0', fraction, offset] = match
+    return buildParts(year, month, day, hour, minute, second, fraction, offset)
+  }
+
+  // Apache/NCSA access log: 14/Jun/2024:12:00:00 +0000
+  match = raw.match(/^(\d{1,2})\/([A-Za-z]{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?(?:\s*([+-]\d{4}))?$/)
+  if (match) {
+    const [, day, month, year, hour, minute, second, fraction, offset] = match
+    return buildParts(year, month, day, hour, minute, second, fraction, offset)
+  }
+
+  // Apache error log / ctime: Fri Jun 14 12:00:00.123456 2024
+  match = raw.match(/^(?:[A-Za-z]{3} )?([A-Za-z]{3}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))? (\d{4})$/)
+  if (match) {
+    const [, month, day, hour, minute, second, fraction, year] = match
+    return buildParts(year, month, day, hour, minute, second, fraction)
+  }
+
+  // Syslog RFC 3164 (no year): Jun 14 12:00:00
+  match = raw.match(/^([A-Za-z]{3}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/)
+  if (match) {
+    const [, month, day, hour, minute, second, fraction] = match
+    const now = new Date()
+    const parts = buildParts(String(now.getUTCFullYear()), month, day, hour, minute, second, fraction)
+    // A date later than tomorrow most likely belongs to last year
+    if (parts && Date.UTC(parts.year, parts.month - 1, parts.day) > now.getTime() + 86400000) {
+      parts.year--
+    }
+    return parts
+  }
+
+  return null
+}
+
+function buildParts(
+  year: string,
+  month: string,
+  day: string,
+  hour: string,
+  minute: string,
+  second: string,
+  fraction?: string,
+  offset?: string
+): TimestampParts | null {
+  const monthNumber = /^\d+$/.test(month) ? Number(month) : MONTHS.indexOf(month.toLowerCase()) + 1
+  if (monthNumber < 1 || monthNumber > 12) return null
+
+  return {
+    year: Number(year),
+    month: monthNumber,
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+    millisecond: fraction ? Number(fraction.slice(0, 3).padEnd(3, '0')) : 0,
+    offsetMinutes: offset ? parseOffset(offset) ?? undefined : undefined
+  }
+}
+
+function parseOffset(offset: string): number | null {
+  if (/^(Z|UTC|GMT)$/i.test(offset)) return 0
+
+  const match = offset.match(/^(?:UTC|GMT)?([+-])(\d{2}):?(\d{2})?$/i)
+  if (!match) return null
+
+  const [, sign, hours, minutes = '0'] = match
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes))
+}
+
+function wallClockToUTC(wallClock: number, timezone?: string): number {
+  // Zone-less timestamps are read as UTC unless the file has a timezone override
+  if (!timezone) return wallClock
+
+  const fixedOffset = parseOffset(timezone)
+  if (fixedOffset !== null) return wallClock - fixedOffset * 60000
+
+  // Resolve the IANA zone's offset at that instant, re-checking once for DST transitions
+  const firstGuess = wallClock - getZoneOffset(wallClock, timezone)
+  return wallClock - getZoneOffset(firstGuess, timezone)
+}
+
+function getZoneOffset(instant: number, timezone: string): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  })
+  const values: Record<string, number> = {}
+  formatter.formatToParts(new Date(instant)).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = Number(part.value)
+  })
+
+  const local = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second)
+  return local - Math.floor(instant / 1000) * 1000
+}
@@ -0,0 +1,69 @@
+import busboy from 'busboy'
+import { pipeline, Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+
+// A request the client got wrong, reported as a 400
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BadRequestError'
+  }
+}
+
+export interface UploadedFileStream {
+  fieldName: string
+  fileName: string
+  stream: Readable
+}
+
+// Reads a multipart/form-data request without buffering file parts in memory.
+// Fields sent before a file part are available in `fields` when onFile runs for it.
+export async function readMultipartUpload(
+  request: Request,
+  onFile: (file: UploadedFileStream, fields: Record<string, string>) => Promise<void>
+): Promise<Record<string, string>> {
+  const contentType = request.headers.get('content-type')
+  if (!request.body || !contentType?.startsWith('multipart/form-data')) {
+    throw new BadRequestError('Expected a multipart/form-data request')
+  }
+
+  const fields: Record<string, string> = {}
+  const parser = busboy({ headers: { 'content-type': contentType } })
+  let queue = Promise.resolve()
+  let failure: unknown
+
+  await new Promise<void>((resolve, reject) => {
+    parser.on('field', (name, value) => {
+      fields[name] = value
+    })
+
+    parser.on('file', (fieldName, stream, info) => {
+      // Handle files one at a time; after a failure the remaining parts are drained so the parser can finish
+      queue = queue.then(async () => {
+        if (failure) {
+          stream.resume()
+          return
+        }
+
+        try {
+          await onFile({ fieldName, fileName: info.filename, stream }, fields)
+        } catch (error) {
+          failure = error
+          stream.resume()
+        }
+      })
+    })
+
+    parser.on('close', resolve)
+    parser.on('error', reject)
+    // An aborted or failed upload destroys the parser, which fails the file stream being read
+    pipeline(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>), parser, error => {
+      if (error) reject(error)
+    })
+  })
+
+  await queue
+  if (failure) throw failure
+
+  return fields
+}
@@ -5,13 +5,24 @@ export interface Message {
   timestamp: Date
 }
 
+// Earlier chat message sent along with a follow-up question
+export type ConversationTurn = Pick<Message, 'role' | 'content'>
+
+export type LogLevel = 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace'
+
 export interface LogEntry {
+  // Canonical ISO 8601 UTC timestamp, or an empty string when the line had none
   timestamp: string
-  level: 'error' | 'warn' | 'info' | 'debug'
+  rawTimestamp?: string
+  level: LogLevel
   message: string
   source?: string
   stackTrace?: string
   context?: Record<string, any>
+  // Fingerprint of the template cluster the entry joined, set once parsing finishes
+  fingerprint?: string
+  // Stack trace frames, only set when source maps rewrote at least one of them
+  stackFrames?: StackFrame[]
 }
 
 export interface AnalysisResult {
@@ -22,7 +33,105 @@ export interface AnalysisResult {
   unitTests: UnitTest[]
   confidence: number
   reasoning: string
+  // Steps to contain the incident now, and changes that keep it from happening again
+  immediateActions?: string[]
+  preventionMeasures?: string[]
   codeAnalysis?: CodeAnalysis
+  anomalies?: LogAnomaly[]
+  timeline?: TimelineEvent[]
+  // Pseudonyms used in place of personal data and secrets in everything the model saw
+  redaction?: RedactionReport
+  // Log evidence that had to be left out of the prompt to fit the model's context window
+  context?: PromptContextReport
+  // Known failures matched by the rule-based detectors
+  findings?: DetectorFinding[]
+  // No AI provider was configured, so only the detectors ran
+  rulesOnly?: boolean
+  // Model responses that still failed schema validation after the repair and retry passes
+  parseErrors?: AnalysisParseError[]
+  // Tool calls the model made while investigating, in investigation mode
+  investigation?: InvestigationReport
+}
+
+// Body of /api/analyze: the analysis plus the text shown as the assistant's chat message
+export interface AnalyzeResponse extends AnalysisResult {
+  analysis: string
+  // Id of the parsed logs kept on the server; follow-ups send it instead of the files while they are unchanged
+  logsId?: string
+}
+
+export type AnalysisPhase = 'parsing' | 'follow-up' | 'code-search' | 'investigation' | 'root-cause' | 'fixes' | 'tests'
+
+// Newline-delimited events /api/analyze streams to clients that accept application/x-ndjson
+export type AnalysisStreamEvent =
+  | { type: 'phase', phase: AnalysisPhase, status: 'started' | 'completed' }
+  // Assistant text as the model writes it
+  | { type: 'text', delta: string }
+  // Parts of the result that are final, e.g. the root cause before fixes are generated
+  | { type: 'partial', result: Partial<AnalysisResult> }
+  // A tool call the model made in investigation mode, once it has returned
+  | { type: 'tool-call', call: InvestigationToolCall }
+  | { type: 'result', result: AnalyzeResponse }
+  | { type: 'error', error: string, status: number }
+
+export interface AnalysisParseError {
+  step: 'analysis' | 'fixes' | 'tests'
+  message: string
+  attempts: number
+}
+
+export type InvestigationToolName = 'searchCode' | 'readFile' | 'listFiles' | 'queryLogs' | 'listErrorPatterns' | 'getRequestChain'
+
+export interface InvestigationToolCall {
+  step: number
+  tool: InvestigationToolName
+  // Arguments as the model sent them, so with pseudonyms in place of redacted values
+  input: Record<string, unknown>
+  // Short description of the result, e.g. "12 matching entries"
+  summary: string
+  failed?: boolean
+}
+
+export interface InvestigationReport {
+  toolCalls: InvestigationToolCall[]
+  steps: number
+  maxSteps: number
+  // The model still wanted to call tools when it ran out of steps
+  stepLimitReached: boolean
+  // The model's summary of what it checked and found
+  notes: string
+  // The investigation failed and the analysis went ahead without it
+  error?: string
+}
+
+export interface PromptContextReport {
+  tokenBudget: number
+  estimatedTokens: number
+  includedEntries: number
+  omittedEntries: number
+  omittedErrors: number
+  // Error clusters with neither their template nor any of their entries in the prompt
+  omittedFingerprints: string[]
+  // Items of the other sections that did not fit, e.g. { section: 'request chains', count: 2 }
+  omittedItems: {
+    section: string
+    count: number
+  }[]
+}
+
+export interface TimelineEvent {
+  id: string
+  // ISO 8601 UTC time of the first occurrence
+  time: string
+  kind: 'anomaly' | 'error' | 'cascade' | 'mitigation' | 'recovery' | 'note'
+  title: string
+  description?: string
+  component?: string
+  // Log lines the event was derived from
+  entries: LogEntry[]
+  occurrences: number
+  // Derived from log rules, added by the model, or both
+  origin: 'logs' | 'model' | 'both'
 }
 
 export interface SuggestedFix {
@@ -48,6 +157,55 @@ export interface CodeAnalysis {
   potentialIssues: string[]
   dependencies: string[]
   mcpServerUsed: string[]
+  // Source around the top in-app stack frames, as shown to the model
+  codeSnippets?: CodeSnippet[]
+}
+
+export interface StackFrame {
+  // node covers V8 traces from Node and Chromium; browser is the Firefox and Safari fn@url:line:col format
+  runtime: 'node' | 'browser' | 'jvm' | 'python' | 'go' | 'ruby' | 'dotnet'
+  function?: string
+  // Path or file name as written in the trace; JVM traces only name the file
+  file?: string
+  line?: number
+  column?: number
+  // Package, class namespace or module the frame belongs to
+  module?: string
+  // False for runtime, standard library and third-party dependency frames
+  inApp: boolean
+  // The minified frame as it appeared in the trace, when a source map rewrote this one
+  generated?: Omit<StackFrame, 'generated'>
+}
+
+export interface CodeSnippet {
+  frame: StackFrame
+  // Repository path the file was found at
+  path: string
+  serverId: string
+  startLine: number
+  endLine: number
+  code: string
+}
+
+export type RedactionRule = 'jwt' | 'api-key' | 'aws-key' | 'password' | 'credit-card' | 'email' | 'ip'
+
+export interface RedactionSettings {
+  enabled: boolean
+  // Built-in rules to apply, all of them when omitted
+  rules?: RedactionRule[]
+  customPatterns: {
+    name: string
+    pattern: string
+  }[]
+}
+
+export interface RedactionReport {
+  // Pseudonym -> original value; stays on this side of the provider call
+  mapping: Record<string, string>
+  counts: {
+    rule: string
+    count: number
+  }[]
 }
 
 export type AIProvider = 'openai' | 'anthropic' | 'bedrock' | 'vertex'
@@ -63,6 +221,7 @@ export interface MCPServer {
 export interface ParsedLog {
   entries: LogEntry[]
   totalEntries: number
+  fatalCount: number
   errorCount: number
   warnCount: number
   timeRange: {
@@ -70,4 +229,125 @@ export interface ParsedLog {
     end: Date
   }
   sources: string[]
+  endpointStats: EndpointStats[]
+  // Message templates mined from every entry, most severe first
+  clusters: LogCluster[]
+  anomalies: LogAnomaly[]
+  // Entries from different files and services linked by trace, request or span ids
+  requestChains: RequestChain[]
+  findings: DetectorFinding[]
+  sampling?: LogSampling
+}
+
+export interface LogSampling {
+  retainedEntries: number
+  droppedErrors: number
+  sampledOtherEntries: number
+}
+
+export interface LogCluster {
+  // Stable id derived from the template
+  fingerprint: string
+  // Message with variable parts replaced by <*>, <NUM>, <IP>, <UUID>...
+  template: string
+  count: number
+  errorCount: number
+  // Most severe level seen in the cluster
+  level: LogLevel
+  firstSeen?: string
+  lastSeen?: string
+  sources: string[]
+  examples: string[]
+  // Structured context and stack trace of the first entry that carried one
+  exampleContext?: Record<string, unknown>
+  stackTrace?: string
+  stackFrames?: StackFrame[]
+}
+
+export interface LogAnomaly {
+  kind: 'onset' | 'spike' | 'recovery'
+  // Error series the window was flagged in
+  scope: 'all' | 'source' | 'fingerprint'
+  // Source name or cluster fingerprint, empty for all errors
+  key: string
+  // Readable series name, e.g. the source or the cluster template
+  label: string
+  start: string
+  end: string
+  errorCount: number
+  // Errors the surrounding rate predicts for the window
+  expectedCount: number
+  // Poisson probability of seeing at least errorCount errors; recoveries have none
+  pValue?: number
+}
+
+export interface CorrelationId {
+  kind: 'trace' | 'request' | 'span' | 'user'
+  value: string
+}
+
+export interface RequestChain {
+  ids: CorrelationId[]
+  // Up to a few dozen entries in time order; errors are kept over other levels
+  entries: LogEntry[]
+  entryCount: number
+  errorCount: number
+  sources: string[]
+  files: string[]
+  start?: string
+  end?: string
+  durationMs?: number
+}
+
+export interface EndpointStats {
+  endpoint: string
+  requests: number
+  serverErrors: number
+  clientErrors: number
+  errorRate: number
+  p95LatencyMs?: number
+}
+
+export interface LogFile {
+  name: string
+  content: string
+  format?: string
+  timezone?: string
+}
+
+export interface DetectorRule {
+  id: string
+  title: string
+  category: string
+  severity: 'critical' | 'high' | 'medium' | 'low'
+  // Regular expressions tested against the message and stack trace, case-insensitive
+  patterns: string[]
+  // Context fields tested as well, e.g. { status: '^429$' }
+  contextPatterns?: Record<string, string>
+  // Levels the rule applies to, all of them when omitted
+  levels?: LogLevel[]
+  // Matches needed before the rule reports a finding, 1 when omitted
+  minMatches?: number
+  remediation: string
+}
+
+export interface DetectorFinding {
+  ruleId: string
+  title: string
+  category: string
+  severity: DetectorRule['severity']
+  remediation: string
+  matchCount: number
+  firstSeen?: string
+  lastSeen?: string
+  sources: string[]
+  // The first matching lines
+  evidence: LogEntry[]
+}
+
+export interface LogFormatDefinition {
+  name: string
+  type?: 'grok' | 'regex'
+  pattern: string
+  source?: string
 }